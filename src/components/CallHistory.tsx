@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCallSession } from '@/hooks/useCallSession';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Phone, PhoneIncoming, PhoneMissed, PhoneOutgoing, Video } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  fetchCallHistory,
+  formatCallDuration,
+  isIncomingCall,
+  isMissedCall,
+  matchesCallFilter,
+  CallHistoryFilter,
+  CallRecord,
+} from '@/utils/callHistory';
+
+interface Profile {
+  user_id: string;
+  username: string;
+  display_name: string;
+  avatar_url?: string;
+}
+
+interface RoomInfo {
+  id: string;
+  name?: string;
+  is_group: boolean;
+}
+
+const FILTERS: { key: CallHistoryFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'missed', label: 'Missed' },
+  { key: 'incoming', label: 'Incoming' },
+  { key: 'outgoing', label: 'Outgoing' },
+];
+
+export const CallHistory = () => {
+  const { user } = useAuth();
+  const { startCall } = useCallSession();
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [profiles, setProfiles] = useState<Map<string, Profile>>(new Map());
+  const [rooms, setRooms] = useState<Map<string, RoomInfo>>(new Map());
+  const [filter, setFilter] = useState<CallHistoryFilter>('all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadHistory();
+
+    // Pick up calls as they finish
+    const channel = supabase
+      .channel('call-history')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'calls' },
+        () => loadHistory()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const loadHistory = async () => {
+    try {
+      const history = await fetchCallHistory();
+
+      const userIds = [...new Set(history.flatMap(call => call.participants))];
+      const roomIds = [...new Set(history.map(call => call.chat_room_id))];
+
+      const [{ data: profilesData }, { data: roomsData }] = await Promise.all([
+        supabase.from('profiles').select('user_id, username, display_name, avatar_url').in('user_id', userIds),
+        supabase.from('chat_rooms').select('id, name, is_group').in('id', roomIds),
+      ]);
+
+      setProfiles(new Map((profilesData || []).map(profile => [profile.user_id, profile])));
+      setRooms(new Map((roomsData || []).map(room => [room.id, room])));
+      setCalls(history);
+    } catch (error) {
+      console.error('Error fetching call history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load call history",
+        variant: "destructive",
+      });
+    }
+    setLoading(false);
+  };
+
+  const getCallDisplayName = (call: CallRecord) => {
+    const room = rooms.get(call.chat_room_id);
+    if (room?.is_group) {
+      return room.name || 'Group Chat';
+    }
+
+    const otherId = call.participants.find(id => id !== user?.id);
+    const other = otherId ? profiles.get(otherId) : undefined;
+    return other?.display_name || other?.username || 'Unknown User';
+  };
+
+  const getOtherAvatar = (call: CallRecord) => {
+    const otherId = call.participants.find(id => id !== user?.id);
+    return otherId ? profiles.get(otherId)?.avatar_url : undefined;
+  };
+
+  const formatCallTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    const now = new Date();
+    if (date.toDateString() === now.toDateString()) {
+      return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    }
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  };
+
+  const callBack = (call: CallRecord) => {
+    startCall(call.chat_room_id, call.call_type, call.participants);
+  };
+
+  if (!user) return null;
+
+  const visibleCalls = calls.filter(call => matchesCallFilter(call, user.id, filter));
+
+  return (
+    <div className="flex-1 overflow-y-auto pb-20">
+      {/* Filter Tabs */}
+      <div className="bg-card px-4 py-3 flex gap-2 overflow-x-auto border-b">
+        {FILTERS.map(tab => (
+          <Button
+            key={tab.key}
+            variant={filter === tab.key ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setFilter(tab.key)}
+            className={`whitespace-nowrap ${
+              filter === tab.key
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center text-muted-foreground">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+          <p>Loading calls...</p>
+        </div>
+      ) : visibleCalls.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">
+          <Phone className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p className="font-medium">No calls yet</p>
+          <p className="text-sm">Calls you make and receive will show up here</p>
+        </div>
+      ) : (
+        visibleCalls.map(call => {
+          const missed = isMissedCall(call, user.id);
+          const incoming = isIncomingCall(call, user.id);
+          const DirectionIcon = missed ? PhoneMissed : incoming ? PhoneIncoming : PhoneOutgoing;
+          const displayName = getCallDisplayName(call);
+          const avatarUrl = getOtherAvatar(call);
+
+          return (
+            <div
+              key={call.id}
+              className="px-4 py-3 border-b border-border/50 flex items-center gap-3"
+            >
+              <Avatar className="w-12 h-12">
+                {avatarUrl ? (
+                  <AvatarImage src={avatarUrl} alt="Profile" />
+                ) : (
+                  <AvatarFallback className="text-lg font-semibold">
+                    {displayName[0]?.toUpperCase()}
+                  </AvatarFallback>
+                )}
+              </Avatar>
+
+              <div className="flex-1 min-w-0">
+                <h3 className={`font-semibold truncate ${missed ? 'text-destructive' : 'text-foreground'}`}>
+                  {displayName}
+                </h3>
+                <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <DirectionIcon className={`w-4 h-4 ${missed ? 'text-destructive' : ''}`} />
+                  <span>{formatCallTime(call.started_at)}</span>
+                  {call.duration_seconds != null && call.duration_seconds > 0 && (
+                    <span>· {formatCallDuration(call.duration_seconds)}</span>
+                  )}
+                </div>
+              </div>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => callBack(call)}
+                className="text-primary hover:bg-accent"
+              >
+                {call.call_type === 'video' ? <Video className="w-5 h-5" /> : <Phone className="w-5 h-5" />}
+              </Button>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
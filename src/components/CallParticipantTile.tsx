@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { CallQualityIndicator } from '@/components/CallQualityIndicator';
+import { MicOff, VideoOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { setAudioOutput } from '@/utils/mediaDevices';
+import type { CallQuality, ConnectionStatsSample } from '@/utils/callStats';
+
+interface CallParticipantTileProps {
+  name: string;
+  avatarUrl?: string | null;
+  stream: MediaStream;
+  showVideo: boolean;
+  isSpeaking?: boolean;
+  isMuted?: boolean;
+  videoPaused?: boolean;
+  fit?: 'cover' | 'contain';
+  quality?: { quality: CallQuality; sample: ConnectionStatsSample };
+  audioOutputId: string;
+  compact?: boolean;
+  className?: string;
+}
+
+// One remote participant. The media element always stays mounted (hidden
+// when there's no video to show) because it's also what plays their audio.
+export const CallParticipantTile = ({
+  name,
+  avatarUrl,
+  stream,
+  showVideo,
+  isSpeaking = false,
+  isMuted = false,
+  videoPaused = false,
+  fit = 'cover',
+  quality,
+  audioOutputId,
+  compact = false,
+  className
+}: CallParticipantTileProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    if (videoRef.current) setAudioOutput(videoRef.current, audioOutputId);
+  }, [audioOutputId]);
+
+  const visibleVideo = showVideo && !videoPaused;
+
+  return (
+    <div
+      className={cn(
+        'relative bg-muted rounded-lg overflow-hidden flex items-center justify-center transition-shadow',
+        isSpeaking && 'ring-2 ring-primary',
+        className
+      )}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        className={visibleVideo ? cn('w-full h-full', fit === 'contain' ? 'object-contain bg-black' : 'object-cover') : 'hidden'}
+      />
+
+      {!visibleVideo && (
+        <div className="flex flex-col items-center gap-2 p-2 text-center">
+          <Avatar className={compact ? 'w-10 h-10' : 'w-20 h-20'}>
+            {avatarUrl && <AvatarImage src={avatarUrl} alt={name} />}
+            <AvatarFallback className={compact ? 'text-sm' : 'text-2xl'}>
+              {name[0]?.toUpperCase() || 'U'}
+            </AvatarFallback>
+          </Avatar>
+          {videoPaused && !compact && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <VideoOff className="w-3 h-3" />
+              Video paused (weak connection)
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="absolute bottom-2 left-2 right-2 z-10 flex items-center gap-1">
+        <span className="bg-background/70 rounded px-2 py-0.5 text-xs truncate flex items-center gap-1">
+          {isMuted && <MicOff className="w-3 h-3 shrink-0 text-destructive" />}
+          {!compact && name}
+        </span>
+        {quality && (
+          <span className="bg-background/70 rounded-full p-0.5">
+            <CallQualityIndicator {...quality} />
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
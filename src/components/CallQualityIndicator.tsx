@@ -0,0 +1,35 @@
+import { Signal, SignalHigh, SignalLow, SignalMedium } from 'lucide-react';
+import type { CallQuality, ConnectionStatsSample } from '@/utils/callStats';
+
+interface CallQualityIndicatorProps {
+  quality: CallQuality;
+  sample?: ConnectionStatsSample;
+  className?: string;
+}
+
+const QUALITY_STYLES: Record<CallQuality, { icon: typeof Signal; color: string; label: string }> = {
+  good: { icon: SignalHigh, color: 'text-green-500', label: 'Good connection' },
+  fair: { icon: SignalMedium, color: 'text-yellow-500', label: 'Unstable connection' },
+  poor: { icon: SignalLow, color: 'text-destructive', label: 'Poor connection' },
+  unknown: { icon: Signal, color: 'text-muted-foreground', label: 'Measuring connection…' }
+};
+
+const describeSample = (sample: ConnectionStatsSample) =>
+  [
+    sample.rttMs !== undefined && `RTT ${Math.round(sample.rttMs)} ms`,
+    sample.jitterMs !== undefined && `jitter ${Math.round(sample.jitterMs)} ms`,
+    sample.packetLossPct !== undefined && `loss ${sample.packetLossPct.toFixed(1)}%`,
+    sample.inboundKbps !== undefined && `${Math.round(sample.inboundKbps)} kbps in`,
+    sample.localCandidateType && `via ${sample.localCandidateType}`
+  ].filter(Boolean).join(' · ');
+
+export const CallQualityIndicator = ({ quality, sample, className = '' }: CallQualityIndicatorProps) => {
+  const { icon: Icon, color, label } = QUALITY_STYLES[quality];
+  const details = sample ? describeSample(sample) : '';
+
+  return (
+    <span className={`inline-flex ${color} ${className}`} title={details ? `${label}: ${details}` : label}>
+      <Icon className="w-4 h-4" />
+    </span>
+  );
+};
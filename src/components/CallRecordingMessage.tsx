@@ -0,0 +1,28 @@
+import React, { useRef } from 'react';
+import { CircleDot } from 'lucide-react';
+import { useMediaSource, useSignedUrl } from '@/hooks/useSignedUrl';
+import { resolveChatFilePath } from '@/utils/chatFiles';
+
+interface CallRecordingMessageProps {
+  content: string;
+  metadata: unknown;
+}
+
+// Older recordings kept their public URL in the message content
+export const CallRecordingMessage: React.FC<CallRecordingMessageProps> = ({ content, metadata }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const path = resolveChatFilePath((metadata as { path?: string } | null)?.path ?? content);
+  const { url, refresh } = useSignedUrl(path);
+
+  useMediaSource(videoRef, url);
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm flex items-center gap-2">
+        <CircleDot className="w-4 h-4" />
+        Call recording
+      </p>
+      <video ref={videoRef} controls preload="metadata" onError={refresh} className="w-64 max-w-full max-h-48 rounded" />
+    </div>
+  );
+};
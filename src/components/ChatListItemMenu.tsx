@@ -0,0 +1,36 @@
+import React from 'react';
+import { Mail, MailOpen } from 'lucide-react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+
+interface ChatListItemMenuProps {
+  unread: boolean;
+  onMarkRead: () => void;
+  onMarkUnread: () => void;
+  // The chat list row
+  children: React.ReactNode;
+}
+
+// Right click (or long press on touch screens) on a chat in the list
+export const ChatListItemMenu: React.FC<ChatListItemMenuProps> = ({ unread, onMarkRead, onMarkUnread, children }) => (
+  <ContextMenu>
+    <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+    <ContextMenuContent>
+      {unread ? (
+        <ContextMenuItem onSelect={onMarkRead}>
+          <MailOpen className="w-4 h-4 mr-2" />
+          Mark as read
+        </ContextMenuItem>
+      ) : (
+        <ContextMenuItem onSelect={onMarkUnread}>
+          <Mail className="w-4 h-4 mr-2" />
+          Mark as unread
+        </ContextMenuItem>
+      )}
+    </ContextMenuContent>
+  </ContextMenu>
+);
@@ -1,315 +1,154 @@
-import { useState, useEffect, useRef } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Send, Phone, Video, WifiOff } from 'lucide-react';
-import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, Ban, Send, Phone, PhoneIncoming, Smile, Video, WifiOff, X } from 'lucide-react';
 import { User } from '@supabase/supabase-js';
-import { cache, CACHE_KEYS } from '@/utils/cache';
-import { offlineQueue } from '@/utils/offlineQueue';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
-
-interface Profile {
-  id: string;
-  user_id: string;
-  username: string;
-  display_name: string;
-  is_online: boolean;
-  avatar_url?: string;
-}
-
-interface Message {
-  id: string;
-  content: string;
-  created_at: string;
-  sender_id: string;
-  message_type: string;
-  sender: Profile;
-}
-
-interface ChatRoomData {
-  id: string;
-  name?: string;
-  is_group: boolean;
-  participants: Profile[];
-}
+import { useCallSession } from '@/hooks/useCallSession';
+import { VoiceRecorderButton } from '@/components/VoiceRecorderButton';
+import { VoiceMessagePlayer } from '@/components/VoiceMessagePlayer';
+import { useOngoingCall } from '@/hooks/useOngoingCall';
+import { useAttachmentUpload } from '@/hooks/useAttachmentUpload';
+import { AttachmentMessage } from '@/components/MessageAttachment';
+import { CallRecordingMessage } from '@/components/CallRecordingMessage';
+import { MessageActions } from '@/components/MessageActions';
+import { EditedMarker } from '@/components/MessageEditHistory';
+import { MessageQuote } from '@/components/MessageQuote';
+import { MessageReactions } from '@/components/MessageReactions';
+import { MessageReceipt } from '@/components/MessageReceipt';
+import { ReactionPicker } from '@/components/ReactionPicker';
+import { ThreadPanel } from '@/components/ThreadPanel';
+import { FileUpload, FilePreview } from '@/components/FileUpload';
+import { isCallInProgress } from '@/utils/callSession';
+import { isVoiceRecordingSupported, parseVoiceMetadata } from '@/utils/voiceMessage';
+import { isAttachmentMessage } from '@/utils/attachments';
+import { resolveChatFilePath } from '@/utils/chatFiles';
+import { cn } from '@/lib/utils';
+import type { ChatRoomData } from '@/utils/chatRooms';
+import { ChatMessage, reactedWith, toQuote } from '@/utils/messages';
+import { useDeleteMessage, useEditMessage, useRoomMessages, useSendMessage, useToggleReaction } from '@/hooks/useChat';
+import { useMarkRead, useReadReceiptsSetting, useRoomReceipts } from '@/hooks/useReceipts';
+import { usePresence } from '@/hooks/usePresence';
+import { useTyping } from '@/hooks/useTyping';
+import { describePresence, describeTyping } from '@/utils/presence';
+import { VirtualMessageList, VirtualMessageListHandle } from '@/components/VirtualMessageList';
 
 interface ChatRoomProps {
   chatRoom: ChatRoomData;
   onBack: () => void;
   currentUser: User;
+  // Opens the room scrolled to this message, e.g. from a search result
+  focusMessageId?: string;
 }
 
-export const ChatRoom = ({ chatRoom, onBack, currentUser }: ChatRoomProps) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+export const ChatRoom = ({ chatRoom, onBack, currentUser, focusMessageId }: ChatRoomProps) => {
   const [newMessage, setNewMessage] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [pendingMessages, setPendingMessages] = useState<Message[]>([]);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const listRef = useRef<VirtualMessageListHandle>(null);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  const {
+    messages,
+    loading,
+    hasOlder,
+    hasNewer,
+    loadingOlder,
+    loadOlder,
+    loadNewer,
+    jumpToMessage,
+    jumpToLatest,
+  } = useRoomMessages(chatRoom.id);
+  const sendText = useSendMessage(chatRoom.id, currentUser);
+  const { mutate: editMessage } = useEditMessage(chatRoom.id);
+  const { deleteForMe, deleteForEveryone } = useDeleteMessage(chatRoom.id, currentUser.id);
+  const toggleReaction = useToggleReaction(chatRoom.id, currentUser.id);
+  const receipts = useRoomReceipts(chatRoom.id);
+  const { enabled: shareReadReceipts } = useReadReceiptsSetting(currentUser.id);
+  const markRead = useMarkRead();
+  const { stateOf, lastSeenOf } = usePresence();
+  const { typingUserIds, notifyTyping, stopTyping } = useTyping(chatRoom.id, currentUser.id);
+  // The composer edits this message instead of sending a new one
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  // Or sends a reply to this one
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
   const isOnline = useOnlineStatus();
+  const { session, startCall, joinCall } = useCallSession();
+  const callMembers = useOngoingCall(chatRoom.id);
+  const { uploads, sendAttachment, cancelUpload, pauseUpload, resumeUpload } = useAttachmentUpload(chatRoom.id, currentUser.id);
+  // Someone else is in this room's call and we aren't
+  const ongoingCall = isCallInProgress(session) && session.chatRoomId === chatRoom.id
+    ? undefined
+    : callMembers.find(member => member.userId !== currentUser.id);
+
+  // Scrolls to a message, loading the history around it if need be
+  const showMessage = useCallback((messageId: string) => {
+    jumpToMessage(messageId).then((found) => {
+      if (found) setFocusedMessageId(messageId);
+    });
+  }, [jumpToMessage]);
 
   useEffect(() => {
-    // Load cached messages first for instant display
-    const cachedMessages = cache.get<Message[]>(`${CACHE_KEYS.MESSAGES}_${chatRoom.id}`);
-    if (cachedMessages) {
-      setMessages(cachedMessages);
-      setLoading(false);
-    }
-
-    fetchMessages();
-    
-    if (isOnline) {
-      subscribeToMessages();
-      updateUserStatus(true);
-      // Process any pending messages from offline queue
-      processOfflineQueue();
-    }
-
-    return () => {
-      if (isOnline) {
-        updateUserStatus(false);
-      }
-    };
-  }, [chatRoom.id, isOnline]);
+    if (focusMessageId) showMessage(focusMessageId);
+  }, [focusMessageId, showMessage]);
 
-  const processOfflineQueue = async () => {
-    const queue = offlineQueue.getQueue();
-    const messagesForThisRoom = queue.filter(
-      action => action.type === 'message' && action.payload.chat_room_id === chatRoom.id
-    );
-
-    for (const action of messagesForThisRoom) {
-      try {
-        const { error } = await supabase
-          .from('messages')
-          .insert({
-            chat_room_id: action.payload.chat_room_id,
-            sender_id: action.payload.sender_id,
-            content: action.payload.content,
-            message_type: 'text'
-          });
-
-        if (!error) {
-          offlineQueue.removeFromQueue(action.id);
-        }
-      } catch (e) {
-        console.error('Failed to sync offline message:', e);
-      }
-    }
-    
-    // Clear pending messages UI after sync
-    setPendingMessages([]);
+  const showLatest = () => {
+    listRef.current?.scrollToEnd();
+    jumpToLatest();
   };
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
-
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const startReplying = (message: ChatMessage) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
   };
 
-  const fetchMessages = async () => {
-    setLoading(true);
-    try {
-      // First get messages, then manually fetch profile data for senders
-      const { data: messagesData, error: messagesError } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('chat_room_id', chatRoom.id)
-        .order('created_at', { ascending: true });
-
-      if (messagesError) throw messagesError;
-
-      if (!messagesData || messagesData.length === 0) {
-        setMessages([]);
-        setLoading(false);
-        return;
-      }
-
-      // Get unique sender IDs
-      const senderIds = [...new Set(messagesData.map(msg => msg.sender_id))];
-
-      // Fetch profile data for all senders
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('*')
-        .in('user_id', senderIds);
-
-      if (profilesError) throw profilesError;
-
-      // Create a map of user_id to profile
-      const profileMap = new Map<string, Profile>();
-      profilesData?.forEach(profile => {
-        profileMap.set(profile.user_id, profile);
-      });
-
-      const formattedMessages = messagesData.map(msg => ({
-        id: msg.id,
-        content: msg.content,
-        created_at: msg.created_at,
-        sender_id: msg.sender_id,
-        message_type: msg.message_type || 'text',
-        sender: profileMap.get(msg.sender_id) || {
-          id: '',
-          user_id: msg.sender_id,
-          username: 'unknown',
-          display_name: 'Unknown User',
-          is_online: false
-        }
-      }));
-
-      setMessages(formattedMessages);
-      // Cache messages for 30 minutes
-      cache.set(`${CACHE_KEYS.MESSAGES}_${chatRoom.id}`, formattedMessages, 30);
-    } catch (error) {
-      console.error('Error fetching messages:', error);
-      // Don't show error toast if offline and we have cached data
-      if (isOnline) {
-        toast({
-          title: "Error",
-          description: "Failed to load messages",
-          variant: "destructive",
-        });
-      }
-    }
-    setLoading(false);
+  const startEditing = (message: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+    setSelectedFile(null);
   };
 
-  const subscribeToMessages = () => {
-    const channel = supabase
-      .channel('messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `chat_room_id=eq.${chatRoom.id}`
-        },
-        async (payload) => {
-          // Fetch the complete message with profile data
-          const { data: messageData, error: messageError } = await supabase
-            .from('messages')
-            .select('*')
-            .eq('id', payload.new.id)
-            .single();
-
-          if (messageError || !messageData) return;
-
-          // Fetch the sender's profile
-          const { data: profileData, error: profileError } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('user_id', messageData.sender_id)
-            .single();
-
-          if (!profileError && profileData) {
-            const newMessage = {
-              id: messageData.id,
-              content: messageData.content,
-              created_at: messageData.created_at,
-              sender_id: messageData.sender_id,
-              message_type: messageData.message_type || 'text',
-              sender: profileData
-            };
-            setMessages(prev => [...prev, newMessage]);
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
+  const stopEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
   };
 
-  const updateUserStatus = async (isOnline: boolean) => {
-    try {
-      const { error } = await supabase.rpc('update_user_status', {
-        user_uuid: currentUser.id,
-        online_status: isOnline
-      });
-
-      if (error) throw error;
-    } catch (error) {
-      console.error('Error updating user status:', error);
-    }
+  const handleComposerChange = (value: string) => {
+    setNewMessage(value);
+    // Changing a sent message isn't news to anyone
+    if (editingMessage) return;
+    if (value.trim()) notifyTyping();
+    else stopTyping();
   };
 
-  const sendMessage = async (e: React.FormEvent) => {
+  const sendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!newMessage.trim()) return;
-
-    const messageContent = newMessage.trim();
-    setNewMessage('');
+    stopTyping();
 
-    // Create optimistic message for immediate UI feedback
-    const optimisticMessage: Message = {
-      id: `pending_${Date.now()}`,
-      content: messageContent,
-      created_at: new Date().toISOString(),
-      sender_id: currentUser.id,
-      message_type: 'text',
-      sender: {
-        id: '',
-        user_id: currentUser.id,
-        username: 'me',
-        display_name: 'Me',
-        is_online: true
-      }
-    };
-
-    if (!isOnline) {
-      // Queue message for later and show as pending
-      offlineQueue.addToQueue({
-        type: 'message',
-        payload: {
-          chat_room_id: chatRoom.id,
-          sender_id: currentUser.id,
-          content: messageContent
-        }
-      });
-      setPendingMessages(prev => [...prev, optimisticMessage]);
-      toast({
-        title: "Message queued",
-        description: "Will be sent when back online",
-      });
+    if (editingMessage) {
+      const content = newMessage.trim();
+      if (content && content !== editingMessage.content) editMessage({ message: editingMessage, content });
+      stopEditing();
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('messages')
-        .insert({
-          chat_room_id: chatRoom.id,
-          sender_id: currentUser.id,
-          content: messageContent,
-          message_type: 'text'
-        });
-
-      if (error) throw error;
-    } catch (error) {
-      console.error('Error sending message:', error);
-      // Queue failed message for retry
-      offlineQueue.addToQueue({
-        type: 'message',
-        payload: {
-          chat_room_id: chatRoom.id,
-          sender_id: currentUser.id,
-          content: messageContent
-        }
-      });
-      setPendingMessages(prev => [...prev, optimisticMessage]);
-      toast({
-        title: "Message queued",
-        description: "Will retry when connection improves",
-        variant: "destructive",
-      });
+    // Attachments go to the upload queue, which holds them while offline, and
+    // take the text as their caption
+    if (selectedFile) {
+      sendAttachment(selectedFile, newMessage);
+      setSelectedFile(null);
+      setNewMessage('');
+      return;
     }
+    
+    if (!newMessage.trim()) return;
+
+    // Shows straight away; the store queues it if it can't go out now
+    showLatest();
+    sendText(newMessage.trim(), replyingTo ?? undefined);
+    setNewMessage('');
+    setReplyingTo(null);
   };
 
   const getChatRoomDisplayName = () => {
@@ -325,25 +164,33 @@ export const ChatRoom = ({ chatRoom, onBack, currentUser }: ChatRoomProps) => {
     return chatRoom.participants.find(p => p.user_id !== currentUser.id);
   };
 
+  // Who's typing, or in a one to one chat whether the other person is around
+  const getStatusLine = () => {
+    if (chatRoom.is_group) {
+      return describeTyping(typingUserIds.map(id => (
+        chatRoom.participants.find(p => p.user_id === id)?.display_name ?? 'Someone'
+      )));
+    }
+    if (typingUserIds.length > 0) return 'typing…';
+    const other = getOtherParticipant();
+    return other ? describePresence(stateOf(other.user_id), lastSeenOf(other.user_id, other.last_seen)) : null;
+  };
+
   const formatMessageTime = (timestamp: string) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
   const handleVoiceCall = () => {
-    const otherUser = getOtherParticipant();
-    toast({
-      title: "Voice Call",
-      description: `Calling ${otherUser?.display_name || 'user'}... (Feature coming soon)`,
-    });
+    startCall(chatRoom.id, 'voice', chatRoom.participants.map(p => p.user_id));
   };
 
   const handleVideoCall = () => {
-    const otherUser = getOtherParticipant();
-    toast({
-      title: "Video Call",
-      description: `Video calling ${otherUser?.display_name || 'user'}... (Feature coming soon)`,
-    });
+    startCall(chatRoom.id, 'video', chatRoom.participants.map(p => p.user_id));
+  };
+
+  const handleJoinCall = () => {
+    if (ongoingCall) joinCall(ongoingCall);
   };
 
   if (loading) {
@@ -372,112 +219,262 @@ export const ChatRoom = ({ chatRoom, onBack, currentUser }: ChatRoomProps) => {
           </Avatar>
           <div>
             <h2 className="font-semibold">{getChatRoomDisplayName()}</h2>
-            {!chatRoom.is_group && (
+            {getStatusLine() && (
               <p className="text-sm text-muted-foreground">
-                {getOtherParticipant()?.is_online ? (
-                  <Badge variant="secondary">Online</Badge>
-                ) : (
-                  'Last seen recently'
-                )}
+                {getStatusLine()}
               </p>
             )}
           </div>
         </div>
         
-        {!chatRoom.is_group && (
-          <div className="flex gap-2">
-            <Button onClick={handleVoiceCall} variant="ghost" size="sm">
-              <Phone className="w-4 h-4" />
+        <div className="flex gap-2">
+          {ongoingCall && (
+            <Button onClick={handleJoinCall} size="sm" disabled={!isOnline || isCallInProgress(session)}>
+              <PhoneIncoming className="w-4 h-4 mr-1" />
+              Join call
             </Button>
-            <Button onClick={handleVideoCall} variant="ghost" size="sm">
-              <Video className="w-4 h-4" />
-            </Button>
-          </div>
-        )}
+          )}
+          <Button onClick={handleVoiceCall} variant="ghost" size="sm" disabled={!isOnline}>
+            <Phone className="w-4 h-4" />
+          </Button>
+          <Button onClick={handleVideoCall} variant="ghost" size="sm" disabled={!isOnline}>
+            <Video className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
 
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 && pendingMessages.length === 0 ? (
+      <VirtualMessageList
+        ref={listRef}
+        items={messages}
+        focusId={focusedMessageId}
+        onFocused={() => setFocusedMessageId(null)}
+        hasMoreBefore={hasOlder}
+        hasMoreAfter={hasNewer}
+        loadingBefore={loadingOlder}
+        onReachStart={loadOlder}
+        onReachEnd={loadNewer}
+        onNewestVisible={markRead}
+        onJumpToLatest={showLatest}
+        itemClassName="pb-4"
+        empty={
           <div className="flex items-center justify-center h-full">
             <p className="text-muted-foreground">No messages yet. Start the conversation!</p>
           </div>
-        ) : (
-          <>
-            {messages.map((message) => {
-              const isCurrentUser = message.sender_id === currentUser.id;
-              return (
-                <div
-                  key={message.id}
-                  className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}
-                >
-                  <div className={`flex gap-2 max-w-xs lg:max-w-md ${isCurrentUser ? 'flex-row-reverse' : ''}`}>
-                    {!isCurrentUser && (
-                      <Avatar className="w-8 h-8">
-                        <AvatarFallback className="text-xs">
-                          {message.sender.display_name[0]?.toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
+        }
+        renderItem={(message, highlighted) => {
+          const isCurrentUser = message.sender_id === currentUser.id;
+          return (
+            <div
+              className={cn(
+                'flex rounded-lg transition-colors',
+                isCurrentUser ? 'justify-end' : 'justify-start',
+                highlighted && 'bg-primary/10'
+              )}
+            >
+              <div className={`group flex items-start gap-2 max-w-xs lg:max-w-md ${isCurrentUser ? 'flex-row-reverse' : ''}`}>
+                {!isCurrentUser && (
+                  <Avatar className="w-8 h-8">
+                    <AvatarFallback className="text-xs">
+                      {message.sender.display_name[0]?.toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                )}
+                <div className={`min-w-0 flex flex-col gap-1 ${isCurrentUser ? 'items-end' : 'items-start'}`}>
+                  <div
+                    className={`px-3 py-2 rounded-lg ${
+                      isCurrentUser
+                        ? message.status ? 'bg-primary/50 text-primary-foreground' : 'bg-primary text-primary-foreground'
+                        : 'bg-muted'
+                    }`}
+                  >
+                    {!isCurrentUser && !chatRoom.is_group && (
+                      <p className="text-xs font-medium mb-1">
+                        {message.sender.display_name}
+                      </p>
                     )}
-                    <div
-                      className={`px-3 py-2 rounded-lg ${
-                        isCurrentUser
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-muted'
-                      }`}
-                    >
-                      {!isCurrentUser && !chatRoom.is_group && (
-                        <p className="text-xs font-medium mb-1">
-                          {message.sender.display_name}
-                        </p>
-                      )}
-                      <p className="text-sm">{message.content}</p>
-                      <p className={`text-xs mt-1 ${
-                        isCurrentUser ? 'text-primary-foreground/70' : 'text-muted-foreground'
-                      }`}>
-                        {formatMessageTime(message.created_at)}
+                    {message.reply_to !== undefined && !message.deleted_at && (
+                      <MessageQuote
+                        quote={message.reply_to}
+                        onClick={() => message.reply_to_id && showMessage(message.reply_to_id)}
+                        isOwn={isCurrentUser}
+                        className="mb-1"
+                      />
+                    )}
+                    {message.deleted_at ? (
+                      <p className="text-sm italic opacity-70 flex items-center gap-1">
+                        <Ban className="w-3 h-3" /> This message was deleted
                       </p>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-            {/* Pending messages (offline queue) */}
-            {pendingMessages.map((message) => (
-              <div key={message.id} className="flex justify-end">
-                <div className="flex gap-2 max-w-xs lg:max-w-md flex-row-reverse">
-                  <div className="px-3 py-2 rounded-lg bg-primary/50 text-primary-foreground">
-                    <p className="text-sm">{message.content}</p>
-                    <p className="text-xs mt-1 text-primary-foreground/70 flex items-center gap-1">
-                      <WifiOff className="w-3 h-3" /> Pending...
+                    ) : message.message_type === 'voice' ? (
+                      <VoiceMessagePlayer
+                        path={resolveChatFilePath(parseVoiceMetadata(message.metadata)?.path ?? message.content)}
+                        metadata={parseVoiceMetadata(message.metadata)}
+                        isOwn={isCurrentUser}
+                      />
+                    ) : isAttachmentMessage(message.message_type) ? (
+                      <AttachmentMessage
+                        messageType={message.message_type}
+                        content={message.content}
+                        metadata={message.metadata}
+                        isOwn={isCurrentUser}
+                      />
+                    ) : message.message_type === 'call_recording' ? (
+                      <CallRecordingMessage content={message.content} metadata={message.metadata} />
+                    ) : (
+                      <p className="text-sm">{message.content}</p>
+                    )}
+                    {!!message.reply_count && (
+                      <button
+                        type="button"
+                        onClick={() => setThreadRootId(message.id)}
+                        className="text-xs font-medium mt-1 hover:underline"
+                      >
+                        {message.reply_count === 1 ? '1 reply' : `${message.reply_count} replies`}
+                      </button>
+                    )}
+                    <p className={`text-xs mt-1 ${
+                      isCurrentUser ? 'text-primary-foreground/70' : 'text-muted-foreground'
+                    }`}>
+                      {message.status === 'queued' ? (
+                        <span className="flex items-center gap-1">
+                          <WifiOff className="w-3 h-3" /> Pending...
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1">
+                          {formatMessageTime(message.created_at)}
+                          {message.edited_at && !message.deleted_at && (
+                            <> · <EditedMarker message={message} /></>
+                          )}
+                          {isCurrentUser && (
+                            <MessageReceipt
+                              message={message}
+                              receipts={receipts}
+                              participants={chatRoom.participants}
+                              isGroup={chatRoom.is_group}
+                              showReads={shareReadReceipts}
+                            />
+                          )}
+                        </span>
+                      )}
                     </p>
                   </div>
+                  {!message.deleted_at && (
+                    <MessageReactions
+                      reactions={message.reactions ?? []}
+                      currentUserId={currentUser.id}
+                      participants={chatRoom.participants}
+                      onToggle={(emoji) => toggleReaction(message, emoji)}
+                    />
+                  )}
                 </div>
+                {!message.status && !message.deleted_at && (
+                  <ReactionPicker
+                    selected={reactedWith(message, currentUser.id)}
+                    onSelect={(emoji) => toggleReaction(message, emoji)}
+                  >
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                      title="React"
+                    >
+                      <Smile className="w-4 h-4" />
+                    </Button>
+                  </ReactionPicker>
+                )}
+                <MessageActions
+                  message={message}
+                  currentUserId={currentUser.id}
+                  onReply={startReplying}
+                  onOpenThread={setThreadRootId}
+                  onEdit={startEditing}
+                  onDeleteForMe={deleteForMe}
+                  onDeleteForEveryone={deleteForEveryone}
+                  className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                />
               </div>
-            ))}
-          </>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+            </div>
+          );
+        }}
+      />
 
       {/* Message Input */}
       <div className="p-4 border-t bg-card">
-        <form onSubmit={sendMessage} className="flex gap-2">
+        {editingMessage && (
+          <div className="mb-3 flex items-center justify-between rounded-lg bg-muted px-3 py-2">
+            <div className="min-w-0">
+              <p className="text-xs font-medium text-primary">Editing message</p>
+              <p className="text-sm text-muted-foreground truncate">{editingMessage.content}</p>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={stopEditing} title="Cancel editing">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="mb-3 flex items-center gap-2">
+            <MessageQuote quote={toQuote(replyingTo)} onClick={() => showMessage(replyingTo.id)} className="flex-1" />
+            <Button type="button" variant="ghost" size="sm" onClick={() => setReplyingTo(null)} title="Cancel reply">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {(uploads.length > 0 || selectedFile) && (
+          <div className="mb-3 space-y-2">
+            {uploads.map(upload => (
+              <FilePreview
+                key={upload.id}
+                file={upload.file}
+                progress={upload.progress}
+                status={upload.status}
+                onRemove={() => cancelUpload(upload.id)}
+                onPause={() => pauseUpload(upload.id)}
+                onResume={() => resumeUpload(upload.id)}
+              />
+            ))}
+            {selectedFile && (
+              <FilePreview file={selectedFile} onRemove={() => setSelectedFile(null)} />
+            )}
+          </div>
+        )}
+        <form onSubmit={sendMessage} className="relative flex gap-2">
+          {!editingMessage && <FileUpload onFileSelect={setSelectedFile} />}
           <Input
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={(e) => handleComposerChange(e.target.value)}
             placeholder="Type a message..."
             className="flex-1"
           />
           <Button 
             type="submit" 
-            disabled={!newMessage.trim()}
+            disabled={!newMessage.trim() && !selectedFile}
             size="sm"
           >
             <Send className="w-4 h-4" />
           </Button>
+          {/* Voice messages upload straight away, so they need a connection */}
+          {isVoiceRecordingSupported() && !editingMessage && (
+            <VoiceRecorderButton
+              chatRoomId={chatRoom.id}
+              userId={currentUser.id}
+              disabled={!isOnline}
+              className="h-9 px-3"
+            />
+          )}
         </form>
       </div>
+
+      <ThreadPanel
+        chatRoomId={chatRoom.id}
+        rootId={threadRootId}
+        currentUser={currentUser}
+        onClose={() => setThreadRootId(null)}
+        onShowInChat={(messageId) => {
+          setThreadRootId(null);
+          showMessage(messageId);
+        }}
+      />
     </div>
   );
 };
\ No newline at end of file
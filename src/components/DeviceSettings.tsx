@@ -0,0 +1,85 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DevicePreferences,
+  isAudioOutputSelectionSupported,
+  MediaDeviceLists,
+  pickDevice
+} from '@/utils/mediaDevices';
+
+interface DeviceSettingsProps {
+  devices: MediaDeviceLists;
+  preferences: DevicePreferences;
+  onSelect: (kind: MediaDeviceKind, deviceId: string) => void;
+  onRequestAccess: () => void;
+  showCamera?: boolean;
+}
+
+const DEVICE_LABELS: Record<MediaDeviceKind, string> = {
+  audioinput: 'Microphone',
+  videoinput: 'Camera',
+  audiooutput: 'Speaker'
+};
+
+export const DeviceSettings = ({
+  devices,
+  preferences,
+  onSelect,
+  onRequestAccess,
+  showCamera = true
+}: DeviceSettingsProps) => {
+  const kinds: MediaDeviceKind[] = [
+    'audioinput',
+    ...(showCamera ? ['videoinput' as const] : []),
+    ...(isAudioOutputSelectionSupported() ? ['audiooutput' as const] : [])
+  ];
+
+  // Without media permission devices come back unlabelled (and often without ids)
+  const hasLabels = kinds.some(kind => devices[kind].some(device => device.label));
+
+  if (!hasLabels) {
+    return (
+      <div className="space-y-2 text-center">
+        <p className="text-sm text-muted-foreground">
+          Allow access to your camera and microphone to choose devices.
+        </p>
+        <Button onClick={onRequestAccess} variant="secondary" size="sm">
+          Allow access
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {kinds.map(kind => {
+        const list = devices[kind].filter(device => device.deviceId);
+        const selected = pickDevice(list, preferences[kind]);
+
+        return (
+          <div key={kind}>
+            <label className="text-sm font-medium text-muted-foreground block mb-2">
+              {DEVICE_LABELS[kind]}
+            </label>
+            <Select
+              value={selected?.deviceId}
+              onValueChange={(deviceId) => onSelect(kind, deviceId)}
+              disabled={list.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={`No ${DEVICE_LABELS[kind].toLowerCase()} found`} />
+              </SelectTrigger>
+              <SelectContent>
+                {list.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `${DEVICE_LABELS[kind]} ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,28 +1,36 @@
 import React, { useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Upload, File, Image, Video } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Upload, File, Image, Video, Pause, Play, RotateCcw } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
+import { cn } from '@/lib/utils';
+import { formatFileSize, getAttachmentKind, MAX_ATTACHMENT_MB } from '@/utils/attachments';
+import type { UploadStatus } from '@/utils/uploadQueue';
 
 interface FileUploadProps {
   onFileSelect: (file: File, type: 'image' | 'video' | 'document') => void;
-  onFileUploaded?: (url: string, type: 'image' | 'video' | 'document') => void;
   accept?: string;
   maxSize?: number; // in MB
+  disabled?: boolean;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ 
-  onFileSelect, 
-  onFileUploaded,
+// File picker for attachments; uploading is up to the chat room (see
+// useAttachmentUpload) so it can show progress and post the message
+export const FileUpload: React.FC<FileUploadProps> = ({
+  onFileSelect,
   accept = "image/*,video/*,.pdf,.doc,.docx,.txt",
-  maxSize = 50
+  maxSize = MAX_ATTACHMENT_MB,
+  disabled = false
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { user } = useAuth();
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+
+    // Reset input so picking the same file again still fires a change
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
     if (!file) return;
 
     // Check file size
@@ -35,69 +43,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({
       return;
     }
 
-    // Determine file type
-    let fileType: 'image' | 'video' | 'document' = 'document';
-    if (file.type.startsWith('image/')) {
-      fileType = 'image';
-    } else if (file.type.startsWith('video/')) {
-      fileType = 'video';
-    }
-
-    // Call the local callback first for immediate preview
-    onFileSelect(file, fileType);
-
-    // Upload to Supabase Storage if user is authenticated
-    if (user && onFileUploaded) {
-      await uploadToStorage(file, fileType);
-    }
-    
-    // Reset input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-  };
-
-  const uploadToStorage = async (file: File, fileType: 'image' | 'video' | 'document') => {
-    if (!user) return;
-
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-    try {
-      const { data, error } = await supabase.storage
-        .from('chat-files')
-        .upload(fileName, file);
-
-      if (error) {
-        console.error('Upload error:', error);
-        toast({
-          title: "Upload failed",
-          description: error.message,
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('chat-files')
-        .getPublicUrl(fileName);
-
-      if (urlData.publicUrl && onFileUploaded) {
-        onFileUploaded(urlData.publicUrl, fileType);
-        toast({
-          title: "File uploaded",
-          description: "File uploaded successfully",
-        });
-      }
-    } catch (error) {
-      console.error('Storage upload error:', error);
-      toast({
-        title: "Upload failed",
-        description: "Failed to upload file",
-        variant: "destructive",
-      });
-    }
+    const kind = getAttachmentKind(file.type);
+    onFileSelect(file, kind === 'file' ? 'document' : kind);
   };
 
   const openFilePicker = () => {
@@ -111,6 +58,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         size="sm"
         type="button"
         onClick={openFilePicker}
+        disabled={disabled}
         className="hover:scale-110 transition-transform"
       >
         <Upload className="w-5 h-5" />
@@ -126,29 +74,68 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   );
 };
 
-export const FilePreview: React.FC<{ file: File; onRemove: () => void }> = ({ file, onRemove }) => {
-  const isImage = file.type.startsWith('image/');
-  const isVideo = file.type.startsWith('video/');
-  
+const STATUS_LABELS: Partial<Record<UploadStatus, string>> = {
+  preparing: 'Preparing…',
+  waiting: 'Waiting for connection',
+  paused: 'Paused',
+  failed: 'Failed',
+};
+
+// A selected file, or one being uploaded when `progress` is set; removing an
+// upload cancels it. Uploads can be paused, and paused or failed ones resumed.
+export const FilePreview: React.FC<{
+  file: File;
+  onRemove: () => void;
+  progress?: number;
+  status?: UploadStatus;
+  onPause?: () => void;
+  onResume?: () => void;
+}> = ({ file, onRemove, progress, status, onPause, onResume }) => {
+  const kind = getAttachmentKind(file.type);
+  const canResume = (status === 'paused' || status === 'failed') && onResume;
+  const canPause = (status === 'uploading' || status === 'waiting') && onPause;
+
   return (
-    <div className="flex items-center gap-2 p-2 bg-accent rounded-lg">
-      {isImage && <Image className="w-4 h-4 text-blue-500" />}
-      {isVideo && <Video className="w-4 h-4 text-green-500" />}
-      {!isImage && !isVideo && <File className="w-4 h-4 text-gray-500" />}
-      
-      <span className="text-sm font-medium truncate flex-1">{file.name}</span>
-      <span className="text-xs text-muted-foreground">
-        {(file.size / 1024 / 1024).toFixed(1)}MB
-      </span>
-      
-      <Button
-        variant="ghost"
-        size="sm"
-        onClick={onRemove}
-        className="h-6 w-6 p-0 hover:bg-destructive hover:text-destructive-foreground"
-      >
-        ×
-      </Button>
+    <div className="p-2 bg-accent rounded-lg space-y-1">
+      <div className="flex items-center gap-2">
+        {kind === 'image' && <Image className="w-4 h-4 text-blue-500" />}
+        {kind === 'video' && <Video className="w-4 h-4 text-green-500" />}
+        {kind === 'file' && <File className="w-4 h-4 text-gray-500" />}
+
+        <span className="text-sm font-medium truncate flex-1">{file.name}</span>
+        <span className={cn('text-xs', status === 'failed' ? 'text-destructive' : 'text-muted-foreground')}>
+          {(status && STATUS_LABELS[status])
+            ?? (progress !== undefined ? `${Math.round(progress * 100)}%` : formatFileSize(file.size))}
+        </span>
+
+        {(canPause || canResume) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            type="button"
+            onClick={canResume ? onResume : onPause}
+            title={canResume ? (status === 'failed' ? 'Retry' : 'Resume') : 'Pause'}
+            className="h-6 w-6 p-0"
+          >
+            {canResume
+              ? (status === 'failed' ? <RotateCcw className="w-3 h-3" /> : <Play className="w-3 h-3" />)
+              : <Pause className="w-3 h-3" />}
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          type="button"
+          onClick={onRemove}
+          title={progress !== undefined ? 'Cancel upload' : 'Remove'}
+          className="h-6 w-6 p-0 hover:bg-destructive hover:text-destructive-foreground"
+        >
+          ×
+        </Button>
+      </div>
+      {progress !== undefined && (
+        <Progress value={progress * 100} className={cn('h-1', status !== 'uploading' && 'opacity-50')} />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -7,7 +7,9 @@ import { Badge } from '@/components/ui/badge';
 import { UserPlus, Users, Clock, Check, X, Search } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { usePresence } from '@/hooks/usePresence';
 import { toast } from '@/hooks/use-toast';
+import { describePresence } from '@/utils/presence';
 
 interface Profile {
   id: string;
@@ -39,6 +41,7 @@ interface Friend {
 
 export const FriendsManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   const { user } = useAuth();
+  const { stateOf } = usePresence();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Profile[]>([]);
   const [friendRequests, setFriendRequests] = useState<FriendRequest[]>([]);
@@ -300,8 +303,8 @@ export const FriendsManager: React.FC<{ onClose: () => void }> = ({ onClose }) =
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        <Badge variant={friendship.friend?.is_online ? "default" : "secondary"}>
-                          {friendship.friend?.is_online ? "Online" : "Offline"}
+                        <Badge variant={stateOf(friendship.friend?.user_id) === 'online' ? "default" : "secondary"}>
+                          {describePresence(stateOf(friendship.friend?.user_id), null)}
                         </Badge>
                       </div>
                     </CardContent>
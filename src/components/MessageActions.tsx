@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { ChevronDown, MessagesSquare, Pencil, Reply, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { canDeleteForEveryone, canEditMessage, ChatMessage } from '@/utils/messages';
+
+interface MessageActionsProps {
+  message: ChatMessage;
+  currentUserId: string;
+  onReply: (message: ChatMessage) => void;
+  // Opens the thread the message starts or belongs to
+  onOpenThread: (rootId: string) => void;
+  onEdit: (message: ChatMessage) => void;
+  onDeleteForMe: (message: ChatMessage) => void;
+  onDeleteForEveryone: (message: ChatMessage) => void;
+  className?: string;
+}
+
+// The menu on a message bubble. Edit and delete for everyone are only offered
+// to the sender while the time allowed for them lasts.
+export const MessageActions: React.FC<MessageActionsProps> = ({
+  message,
+  currentUserId,
+  onReply,
+  onOpenThread,
+  onEdit,
+  onDeleteForMe,
+  onDeleteForEveryone,
+  className,
+}) => {
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Not on the server yet, so there's nothing to change
+  if (message.status) return null;
+
+  const threadRootId = message.thread_root_id ?? (message.reply_count ? message.id : null);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className={cn('h-6 w-6 p-0', className)}
+            title="Message options"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {!message.deleted_at && (
+            <DropdownMenuItem onSelect={() => onReply(message)}>
+              <Reply className="w-4 h-4 mr-2" />
+              Reply
+            </DropdownMenuItem>
+          )}
+          {threadRootId && (
+            <DropdownMenuItem onSelect={() => onOpenThread(threadRootId)}>
+              <MessagesSquare className="w-4 h-4 mr-2" />
+              View thread
+            </DropdownMenuItem>
+          )}
+          {canEditMessage(message, currentUserId) && (
+            <DropdownMenuItem onSelect={() => onEdit(message)}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => onDeleteForMe(message)}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete for me
+          </DropdownMenuItem>
+          {canDeleteForEveryone(message, currentUserId) && (
+            <DropdownMenuItem onSelect={() => setConfirmDelete(true)} className="text-destructive">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete for everyone
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete for everyone?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message will be replaced with a note that it was deleted, for everyone in this chat.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onDeleteForEveryone(message)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
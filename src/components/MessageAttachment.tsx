@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Download, FileText, Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useMediaSource, useSignedUrl } from '@/hooks/useSignedUrl';
+import { formatVoiceDuration } from '@/utils/voiceMessage';
+import { blurhashToDataUrl } from '@/utils/blurhash';
+import { formatFileSize, getAttachmentKind, parseAttachmentMetadata, AttachmentMetadata } from '@/utils/attachments';
+
+interface MessageAttachmentProps {
+  attachment: AttachmentMetadata;
+  // Inverted colors for the sender's own (primary colored) bubble
+  isOwn?: boolean;
+}
+
+// Previews never get taller than this; the stored dimensions keep the aspect
+// ratio so the message list doesn't jump when the media loads
+const PREVIEW_MAX_WIDTH = 260;
+const PREVIEW_MAX_HEIGHT = 320;
+
+const getPreviewSize = ({ width, height }: AttachmentMetadata) => {
+  if (!width || !height) return undefined;
+  const scale = Math.min(1, PREVIEW_MAX_WIDTH / width, PREVIEW_MAX_HEIGHT / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const getExtension = (name: string) =>
+  name.includes('.') ? name.split('.').pop()!.toUpperCase() : 'FILE';
+
+const LightboxVideo = ({ url, onError }: { url: string; onError: () => void }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useMediaSource(videoRef, url);
+  return <video ref={videoRef} controls autoPlay playsInline onError={onError} className="max-w-[90vw] max-h-[85vh]" />;
+};
+
+export const MessageAttachment: React.FC<MessageAttachmentProps> = ({ attachment, isOwn = false }) => {
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+  const [previewLoaded, setPreviewLoaded] = useState(false);
+  const kind = getAttachmentKind(attachment.mime_type);
+  // The full file is only fetched for documents and once the lightbox opens;
+  // the bubble shows the thumbnail when there is one
+  const { url, refresh } = useSignedUrl(kind === 'file' || lightboxOpen ? attachment.path : null);
+  const preview = useSignedUrl(kind === 'file' ? null : attachment.thumbnail_path ?? attachment.path);
+  const previewSize = getPreviewSize(attachment);
+  const placeholder = attachment.blurhash ? blurhashToDataUrl(attachment.blurhash) : undefined;
+
+  if (kind === 'file') {
+    return (
+      <div
+        className={cn(
+          'flex items-center gap-3 rounded-lg p-2 w-64 max-w-full',
+          isOwn ? 'bg-primary-foreground/15' : 'bg-background'
+        )}
+      >
+        <div className="relative shrink-0">
+          <FileText className="w-9 h-9" />
+          <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 rounded bg-primary px-1 text-[9px] font-semibold text-primary-foreground">
+            {getExtension(attachment.name).slice(0, 4)}
+          </span>
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate" title={attachment.name}>{attachment.name}</p>
+          <p className={cn('text-xs', isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+            {formatFileSize(attachment.size)}
+          </p>
+        </div>
+        <Button
+          asChild
+          variant="ghost"
+          size="sm"
+          className={cn('h-8 w-8 p-0 shrink-0', isOwn && 'hover:bg-primary-foreground/20 text-primary-foreground')}
+        >
+          <a href={url} download={attachment.name} target="_blank" rel="noreferrer" title="Download">
+            <Download className="w-4 h-4" />
+          </a>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setLightboxOpen(true)}
+        className="relative block overflow-hidden rounded-lg bg-black/10 bg-cover bg-center max-w-full"
+        style={{
+          ...(previewSize ?? { width: PREVIEW_MAX_WIDTH, height: PREVIEW_MAX_WIDTH * 0.75 }),
+          backgroundImage: placeholder && !previewLoaded ? `url(${placeholder})` : undefined,
+        }}
+        title={attachment.name}
+      >
+        {!preview.url ? null : kind === 'image' || attachment.thumbnail_path ? (
+          <img
+            src={preview.url}
+            alt={attachment.name}
+            loading="lazy"
+            onLoad={() => setPreviewLoaded(true)}
+            onError={preview.refresh}
+            className={cn('w-full h-full object-cover transition-opacity', previewLoaded ? 'opacity-100' : 'opacity-0')}
+          />
+        ) : (
+          <video
+            // #t nudges browsers into showing a first frame as the poster
+            src={`${preview.url}#t=0.1`}
+            preload="metadata"
+            muted
+            playsInline
+            onError={preview.refresh}
+            className="w-full h-full object-cover"
+          />
+        )}
+        {kind === 'video' && (
+          <>
+            <span className="absolute inset-0 flex items-center justify-center">
+              <span className="rounded-full bg-black/50 p-3 text-white">
+                <Play className="w-6 h-6" />
+              </span>
+            </span>
+            {attachment.duration_ms !== undefined && (
+              <span className="absolute bottom-1 right-1 rounded bg-black/60 px-1 text-xs text-white">
+                {formatVoiceDuration(attachment.duration_ms)}
+              </span>
+            )}
+          </>
+        )}
+      </button>
+
+      <Dialog open={lightboxOpen} onOpenChange={setLightboxOpen}>
+        <DialogContent className="max-w-[95vw] max-h-[95vh] w-auto p-2 bg-black border-0 flex flex-col items-center">
+          <DialogTitle className="sr-only">{attachment.name}</DialogTitle>
+          {url && (kind === 'image' ? (
+            <img src={url} alt={attachment.name} onError={refresh} className="max-w-[90vw] max-h-[85vh] object-contain" />
+          ) : (
+            <LightboxVideo url={url} onError={refresh} />
+          ))}
+          <a
+            href={url}
+            download={attachment.name}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center gap-1 text-sm text-white/80 hover:text-white"
+          >
+            <Download className="w-4 h-4" />
+            {attachment.name} · {formatFileSize(attachment.size)}
+          </a>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const LEGACY_ICONS: Record<string, string> = { image: '📷', video: '🎥', file: '📄' };
+
+// An image/video/file message: the attachment plus its caption. Messages
+// sent before attachments were uploaded only have the file name.
+export const AttachmentMessage: React.FC<{
+  messageType: string;
+  content: string;
+  metadata: unknown;
+  isOwn?: boolean;
+}> = ({ messageType, content, metadata, isOwn = false }) => {
+  const attachment = parseAttachmentMetadata(metadata);
+
+  if (!attachment) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-sm">{LEGACY_ICONS[messageType]} {content}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <MessageAttachment attachment={attachment} isOwn={isOwn} />
+      {content !== attachment.name && (
+        <p className="text-sm leading-relaxed break-words">{content}</p>
+      )}
+    </div>
+  );
+};
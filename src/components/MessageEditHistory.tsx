@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useMessageRevisions } from '@/hooks/useChat';
+import { cn } from '@/lib/utils';
+import type { ChatMessage } from '@/utils/messages';
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+interface EditedMarkerProps {
+  message: ChatMessage;
+  className?: string;
+}
+
+// "edited", opening the message's earlier versions
+export const EditedMarker: React.FC<EditedMarkerProps> = ({ message, className }) => {
+  const [open, setOpen] = useState(false);
+  const { data: revisions, isLoading } = useMessageRevisions(message.id, open);
+
+  return (
+    <>
+      <button type="button" onClick={() => setOpen(true)} className={cn('italic hover:underline', className)}>
+        edited
+      </button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit history</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            <div className="rounded-lg bg-primary/10 p-3">
+              <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Current{message.edited_at && ` · edited ${formatTime(message.edited_at)}`}
+              </p>
+            </div>
+            {isLoading && <Loader2 className="w-4 h-4 animate-spin mx-auto" />}
+            {/* Newest first; each version was current until it was replaced */}
+            {revisions?.slice().reverse().map((revision, index, newestFirst) => (
+              <div key={revision.id} className="rounded-lg bg-muted p-3">
+                <p className="text-sm whitespace-pre-wrap break-words">{revision.content}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {index === newestFirst.length - 1 ? 'Original' : 'Earlier version'} · replaced {formatTime(revision.created_at)}
+                </p>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
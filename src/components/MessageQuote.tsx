@@ -0,0 +1,39 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { describeMessage, QuotedMessage } from '@/utils/messages';
+
+interface MessageQuoteProps {
+  // null when the quoted message can't be shown
+  quote: QuotedMessage | null;
+  onClick?: () => void;
+  isOwn?: boolean;
+  className?: string;
+}
+
+// The quoted message at the top of a reply, and above the composer while
+// replying. Clicking it goes to the original.
+export const MessageQuote: React.FC<MessageQuoteProps> = ({ quote, onClick, isOwn = false, className }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={!onClick || !quote}
+    className={cn(
+      'block w-full min-w-0 text-left rounded border-l-4 px-2 py-1 text-xs',
+      isOwn ? 'border-primary-foreground/60 bg-primary-foreground/10' : 'border-primary bg-background/60',
+      className
+    )}
+  >
+    {quote ? (
+      <>
+        <span className={cn('block font-medium', isOwn ? 'text-primary-foreground' : 'text-primary')}>
+          {quote.sender_name}
+        </span>
+        <span className={cn('block truncate', quote.deleted_at && 'italic', isOwn ? 'text-primary-foreground/80' : 'text-muted-foreground')}>
+          {describeMessage(quote)}
+        </span>
+      </>
+    ) : (
+      <span className="italic opacity-70">Original message unavailable</span>
+    )}
+  </button>
+);
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { MessageReaction, MessageSender } from '@/utils/messages';
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  currentUserId: string;
+  // The room's members, for naming who reacted
+  participants: MessageSender[];
+  onToggle: (emoji: string) => void;
+  className?: string;
+}
+
+// One chip per emoji under a message, with how many reacted. A chip opens the
+// list of who reacted, where we can add or take back our own.
+export const MessageReactions: React.FC<MessageReactionsProps> = ({
+  reactions,
+  currentUserId,
+  participants,
+  onToggle,
+  className,
+}) => {
+  if (reactions.length === 0) return null;
+
+  // In order of each emoji's first use, so chips don't jump around
+  const byEmoji = new Map<string, MessageReaction[]>();
+  reactions.forEach(reaction => {
+    byEmoji.set(reaction.emoji, [...(byEmoji.get(reaction.emoji) ?? []), reaction]);
+  });
+  const nameOf = (userId: string) =>
+    userId === currentUserId
+      ? 'You'
+      : participants.find(participant => participant.user_id === userId)?.display_name ?? 'Former member';
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {[...byEmoji].map(([emoji, group]) => {
+        const reacted = group.some(reaction => reaction.user_id === currentUserId);
+        return (
+          <Popover key={emoji}>
+            <PopoverTrigger asChild>
+              <button
+                type="button"
+                className={cn(
+                  'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs bg-background transition-colors hover:bg-accent',
+                  reacted && 'border-primary bg-primary/10'
+                )}
+              >
+                <span className="text-sm leading-none">{emoji}</span>
+                <span className="font-medium">{group.length}</span>
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-56 p-3">
+              <p className="text-sm font-medium mb-2">
+                {emoji} {group.length === 1 ? '1 reaction' : `${group.length} reactions`}
+              </p>
+              <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                {group.map(reaction => (
+                  <li key={reaction.id} className="truncate">{nameOf(reaction.user_id)}</li>
+                ))}
+              </ul>
+              <Button type="button" variant="outline" size="sm" className="w-full mt-3" onClick={() => onToggle(emoji)}>
+                {reacted ? 'Remove my reaction' : `React with ${emoji}`}
+              </Button>
+            </PopoverContent>
+          </Popover>
+        );
+      })}
+    </div>
+  );
+};
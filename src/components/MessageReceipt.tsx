@@ -0,0 +1,68 @@
+import React from 'react';
+import { Check, CheckCheck, Clock, WifiOff } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { ChatMessage, MessageSender } from '@/utils/messages';
+import { ParticipantReceipt, receiptStatus, seenBy } from '@/utils/receipts';
+
+interface MessageReceiptProps {
+  // One of our own messages
+  message: ChatMessage;
+  receipts: ParticipantReceipt[];
+  // The room's members, for naming who has seen it in a group
+  participants: MessageSender[];
+  isGroup: boolean;
+  // Off when we don't share read receipts ourselves
+  showReads: boolean;
+  className?: string;
+}
+
+// Ticks on our own message: one once the server has it, two once it has
+// reached everyone else, blue once they've all read it. Groups also list who
+// has seen it so far.
+export const MessageReceipt: React.FC<MessageReceiptProps> = ({
+  message,
+  receipts,
+  participants,
+  isGroup,
+  showReads,
+  className,
+}) => {
+  if (message.status === 'queued') return <WifiOff className={cn('w-3 h-3', className)} />;
+  if (message.status === 'sending') return <Clock className={cn('w-3 h-3', className)} />;
+
+  const status = receiptStatus(message, receipts, showReads);
+  const ticks = status === 'sent' ? (
+    <Check className={cn('w-3.5 h-3.5', className)} aria-label="Sent" />
+  ) : (
+    <CheckCheck
+      className={cn('w-3.5 h-3.5', className, status === 'read' && 'text-sky-400')}
+      aria-label={status === 'read' ? 'Read' : 'Delivered'}
+    />
+  );
+
+  const seen = showReads && isGroup ? seenBy(message, receipts) : [];
+  if (seen.length === 0) return ticks;
+
+  const nameOf = (userId: string) =>
+    participants.find(participant => participant.user_id === userId)?.display_name ?? 'Former member';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="flex items-center gap-0.5 hover:underline" title="Seen by">
+          {ticks}
+          <span className="text-xs">{seen.length}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-3">
+        <p className="text-sm font-medium mb-2">Seen by</p>
+        <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+          {seen.map(receipt => (
+            <li key={receipt.user_id} className="truncate">{nameOf(receipt.user_id)}</li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
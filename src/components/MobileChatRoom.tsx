@@ -1,240 +1,161 @@
-import { useState, useEffect, useRef } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { ArrowLeft, Send, Phone, Video, MoreVertical, Paperclip } from 'lucide-react';
-import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, Send, Phone, PhoneIncoming, Video, MoreVertical, Paperclip, Ban, X } from 'lucide-react';
 import { User } from '@supabase/supabase-js';
 import { FileUpload, FilePreview } from './FileUpload';
-import { WebRTCCall } from './WebRTCCall';
-import { sendCallInvite } from '@/utils/callSignaling';
-
-interface Profile {
-  id: string;
-  user_id: string;
-  username: string;
-  display_name: string;
-  is_online: boolean;
-  avatar_url?: string;
-}
-
-interface Message {
-  id: string;
-  content: string;
-  created_at: string;
-  sender_id: string;
-  message_type: string;
-  sender: Profile;
-}
-
-interface ChatRoomData {
-  id: string;
-  name?: string;
-  is_group: boolean;
-  participants: Profile[];
-}
+import { useCallSession } from '@/hooks/useCallSession';
+import { VoiceRecorderButton } from '@/components/VoiceRecorderButton';
+import { VoiceMessagePlayer } from '@/components/VoiceMessagePlayer';
+import { useOngoingCall } from '@/hooks/useOngoingCall';
+import { useAttachmentUpload } from '@/hooks/useAttachmentUpload';
+import { AttachmentMessage } from '@/components/MessageAttachment';
+import { CallRecordingMessage } from '@/components/CallRecordingMessage';
+import { MessageActions } from '@/components/MessageActions';
+import { EditedMarker } from '@/components/MessageEditHistory';
+import { MessageQuote } from '@/components/MessageQuote';
+import { MessageReactions } from '@/components/MessageReactions';
+import { MessageReceipt } from '@/components/MessageReceipt';
+import { ReactionPicker } from '@/components/ReactionPicker';
+import { ThreadPanel } from '@/components/ThreadPanel';
+import { isCallInProgress } from '@/utils/callSession';
+import { isVoiceRecordingSupported, parseVoiceMetadata } from '@/utils/voiceMessage';
+import { isAttachmentMessage } from '@/utils/attachments';
+import { resolveChatFilePath } from '@/utils/chatFiles';
+import { cn } from '@/lib/utils';
+import type { ChatRoomData } from '@/utils/chatRooms';
+import { ChatMessage, reactedWith, toQuote } from '@/utils/messages';
+import { useDeleteMessage, useEditMessage, useRoomMessages, useSendMessage, useToggleReaction } from '@/hooks/useChat';
+import { useMarkRead, useReadReceiptsSetting, useRoomReceipts } from '@/hooks/useReceipts';
+import { usePresence } from '@/hooks/usePresence';
+import { useTyping } from '@/hooks/useTyping';
+import { describePresence, describeTyping } from '@/utils/presence';
+import { useLongPress } from '@/hooks/useLongPress';
+import { VirtualMessageList, VirtualMessageListHandle } from '@/components/VirtualMessageList';
 
 interface MobileChatRoomProps {
   chatRoom: ChatRoomData;
   onBack: () => void;
   currentUser: User;
+  // Opens the room scrolled to this message, e.g. from a search result
+  focusMessageId?: string;
 }
 
-export const MobileChatRoom = ({ chatRoom, onBack, currentUser }: MobileChatRoomProps) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+export const MobileChatRoom = ({ chatRoom, onBack, currentUser, focusMessageId }: MobileChatRoomProps) => {
   const [newMessage, setNewMessage] = useState('');
-  const [loading, setLoading] = useState(true);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [activeCall, setActiveCall] = useState<{
-    chatRoomId: string;
-    callType: 'voice' | 'video';
-    participants: string[];
-  } | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    fetchMessages();
-    subscribeToMessages();
-    
-    updateUserStatus(true);
-
-    return () => {
-      updateUserStatus(false);
-    };
-  }, [chatRoom.id]);
+  const listRef = useRef<VirtualMessageListHandle>(null);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  const {
+    messages,
+    loading,
+    hasOlder,
+    hasNewer,
+    loadingOlder,
+    loadOlder,
+    loadNewer,
+    jumpToMessage,
+    jumpToLatest,
+  } = useRoomMessages(chatRoom.id);
+  const sendText = useSendMessage(chatRoom.id, currentUser);
+  const { mutate: editMessage } = useEditMessage(chatRoom.id);
+  const { deleteForMe, deleteForEveryone } = useDeleteMessage(chatRoom.id, currentUser.id);
+  const toggleReaction = useToggleReaction(chatRoom.id, currentUser.id);
+  const receipts = useRoomReceipts(chatRoom.id);
+  const { enabled: shareReadReceipts } = useReadReceiptsSetting(currentUser.id);
+  const markRead = useMarkRead();
+  const { stateOf, lastSeenOf } = usePresence();
+  const { typingUserIds, notifyTyping, stopTyping } = useTyping(chatRoom.id, currentUser.id);
+  // The message whose reaction picker is open, after a long press on it
+  const [reactingToId, setReactingToId] = useState<string | null>(null);
+  const longPress = useLongPress<ChatMessage>((message) => {
+    if (!message.status && !message.deleted_at) setReactingToId(message.id);
+  });
+  // The composer edits this message instead of sending a new one
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  // Or sends a reply to this one
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const { session, startCall, joinCall } = useCallSession();
+  const callMembers = useOngoingCall(chatRoom.id);
+  const { uploads, sendAttachment, cancelUpload, pauseUpload, resumeUpload } = useAttachmentUpload(chatRoom.id, currentUser.id);
+  // Someone else is in this room's call and we aren't
+  const ongoingCall = isCallInProgress(session) && session.chatRoomId === chatRoom.id
+    ? undefined
+    : callMembers.find(member => member.userId !== currentUser.id);
+
+  // Scrolls to a message, loading the history around it if need be
+  const showMessage = useCallback((messageId: string) => {
+    jumpToMessage(messageId).then((found) => {
+      if (found) setFocusedMessageId(messageId);
+    });
+  }, [jumpToMessage]);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (focusMessageId) showMessage(focusMessageId);
+  }, [focusMessageId, showMessage]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const showLatest = () => {
+    listRef.current?.scrollToEnd();
+    jumpToLatest();
   };
 
-  const fetchMessages = async () => {
-    setLoading(true);
-    try {
-      const { data: messagesData, error: messagesError } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('chat_room_id', chatRoom.id)
-        .order('created_at', { ascending: true });
-
-      if (messagesError) throw messagesError;
-
-      if (!messagesData || messagesData.length === 0) {
-        setMessages([]);
-        setLoading(false);
-        return;
-      }
-
-      const senderIds = [...new Set(messagesData.map(msg => msg.sender_id))];
-
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('*')
-        .in('user_id', senderIds);
-
-      if (profilesError) throw profilesError;
-
-      const profileMap = new Map<string, Profile>();
-      profilesData?.forEach(profile => {
-        profileMap.set(profile.user_id, profile);
-      });
-
-      const formattedMessages = messagesData.map(msg => ({
-        id: msg.id,
-        content: msg.content,
-        created_at: msg.created_at,
-        sender_id: msg.sender_id,
-        message_type: msg.message_type || 'text',
-        sender: profileMap.get(msg.sender_id) || {
-          id: '',
-          user_id: msg.sender_id,
-          username: 'unknown',
-          display_name: 'Unknown User',
-          is_online: false
-        }
-      }));
-
-      setMessages(formattedMessages);
-    } catch (error) {
-      console.error('Error fetching messages:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load messages",
-        variant: "destructive",
-      });
-    }
-    setLoading(false);
+  const startReplying = (message: ChatMessage) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
   };
 
-  const subscribeToMessages = () => {
-    const channel = supabase
-      .channel('messages')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `chat_room_id=eq.${chatRoom.id}`
-        },
-        async (payload) => {
-          const { data: messageData, error: messageError } = await supabase
-            .from('messages')
-            .select('*')
-            .eq('id', payload.new.id)
-            .single();
-
-          if (messageError || !messageData) return;
-
-          const { data: profileData, error: profileError } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('user_id', messageData.sender_id)
-            .single();
-
-          if (!profileError && profileData) {
-            const newMessage = {
-              id: messageData.id,
-              content: messageData.content,
-              created_at: messageData.created_at,
-              sender_id: messageData.sender_id,
-              message_type: messageData.message_type || 'text',
-              sender: profileData
-            };
-            setMessages(prev => [...prev, newMessage]);
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
+  const startEditing = (message: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+    setSelectedFile(null);
   };
 
-  const updateUserStatus = async (isOnline: boolean) => {
-    try {
-      const { error } = await supabase.rpc('update_user_status', {
-        user_uuid: currentUser.id,
-        online_status: isOnline
-      });
+  const stopEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
 
-      if (error) throw error;
-    } catch (error) {
-      console.error('Error updating user status:', error);
-    }
+  const handleComposerChange = (value: string) => {
+    setNewMessage(value);
+    // Changing a sent message isn't news to anyone
+    if (editingMessage) return;
+    if (value.trim()) notifyTyping();
+    else stopTyping();
   };
 
-  const sendMessage = async (e: React.FormEvent) => {
+  const sendMessage = (e: React.FormEvent) => {
     e.preventDefault();
+    stopTyping();
+
+    if (editingMessage) {
+      const content = newMessage.trim();
+      if (content && content !== editingMessage.content) editMessage({ message: editingMessage, content });
+      stopEditing();
+      return;
+    }
     
     if (!newMessage.trim() && !selectedFile) return;
 
-    try {
-      let messageContent = newMessage.trim();
-      let messageType = 'text';
-
-      if (selectedFile) {
-        // For now, we'll just send the filename as content
-        // In a real app, you'd upload to storage first
-        messageContent = selectedFile.name;
-        messageType = selectedFile.type.startsWith('image/') ? 'image' : 
-                     selectedFile.type.startsWith('video/') ? 'video' : 'file';
-      }
-
-      const { error } = await supabase
-        .from('messages')
-        .insert({
-          chat_room_id: chatRoom.id,
-          sender_id: currentUser.id,
-          content: messageContent,
-          message_type: messageType
-        });
-
-      if (error) throw error;
-
+    // The text becomes the attachment's caption; the upload shows its own
+    // progress, so the composer is free again straight away
+    if (selectedFile) {
+      sendAttachment(selectedFile, newMessage);
       setNewMessage('');
       setSelectedFile(null);
-    } catch (error) {
-      console.error('Error sending message:', error);
-      toast({
-        title: "Error",
-        description: "Failed to send message",
-        variant: "destructive",
-      });
+      return;
     }
+
+    showLatest();
+    sendText(newMessage.trim(), replyingTo ?? undefined);
+    setNewMessage('');
+    setReplyingTo(null);
   };
 
-  const handleFileSelect = (file: File, type: 'image' | 'video' | 'document') => {
+  const handleFileSelect = (file: File) => {
     setSelectedFile(file);
-    toast({
-      title: "File selected",
-      description: `${file.name} ready to send`,
-    });
   };
 
   const getChatRoomDisplayName = () => {
@@ -250,33 +171,33 @@ export const MobileChatRoom = ({ chatRoom, onBack, currentUser }: MobileChatRoom
     return chatRoom.participants.find(p => p.user_id !== currentUser.id);
   };
 
+  // Who's typing, or in a one to one chat whether the other person is around
+  const getStatusLine = () => {
+    if (chatRoom.is_group) {
+      return describeTyping(typingUserIds.map(id => (
+        chatRoom.participants.find(p => p.user_id === id)?.display_name ?? 'Someone'
+      )));
+    }
+    if (typingUserIds.length > 0) return 'typing…';
+    const other = getOtherParticipant();
+    return other ? describePresence(stateOf(other.user_id), lastSeenOf(other.user_id, other.last_seen)) : null;
+  };
+
   const formatMessageTime = (timestamp: string) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const handleVoiceCall = async () => {
-    const participants = chatRoom.participants.map(p => p.user_id);
-    const recipients = participants.filter(id => id !== currentUser.id);
-    await sendCallInvite(recipients, {
-      chatRoomId: chatRoom.id,
-      callType: 'voice',
-      from: currentUser.id,
-      participants
-    });
-    setActiveCall({ chatRoomId: chatRoom.id, callType: 'voice', participants });
+  const handleVoiceCall = () => {
+    startCall(chatRoom.id, 'voice', chatRoom.participants.map(p => p.user_id));
   };
 
-  const handleVideoCall = async () => {
-    const participants = chatRoom.participants.map(p => p.user_id);
-    const recipients = participants.filter(id => id !== currentUser.id);
-    await sendCallInvite(recipients, {
-      chatRoomId: chatRoom.id,
-      callType: 'video',
-      from: currentUser.id,
-      participants
-    });
-    setActiveCall({ chatRoomId: chatRoom.id, callType: 'video', participants });
+  const handleVideoCall = () => {
+    startCall(chatRoom.id, 'video', chatRoom.participants.map(p => p.user_id));
+  };
+
+  const handleJoinCall = () => {
+    if (ongoingCall) joinCall(ongoingCall);
   };
 
   if (loading) {
@@ -290,18 +211,6 @@ export const MobileChatRoom = ({ chatRoom, onBack, currentUser }: MobileChatRoom
     );
   }
 
-  // Show call interface if active call
-  if (activeCall) {
-    return (
-      <WebRTCCall
-        chatRoomId={activeCall.chatRoomId}
-        callType={activeCall.callType}
-        participants={activeCall.participants}
-        onEndCall={() => setActiveCall(null)}
-      />
-    );
-  }
-
   const otherParticipant = getOtherParticipant();
 
   return (
@@ -330,123 +239,247 @@ export const MobileChatRoom = ({ chatRoom, onBack, currentUser }: MobileChatRoom
           
           <div className="flex-1 min-w-0">
             <h2 className="font-semibold text-lg truncate">{getChatRoomDisplayName()}</h2>
-            {!chatRoom.is_group && (
-              <p className="text-sm text-primary-foreground/70">
-                {otherParticipant?.is_online ? 'Online' : 'Last seen recently'}
+            {getStatusLine() && (
+              <p className="text-sm text-primary-foreground/70 truncate">
+                {getStatusLine()}
               </p>
             )}
           </div>
         </div>
         
-        {!chatRoom.is_group && (
-          <div className="flex gap-1">
-            <Button 
-              onClick={handleVideoCall} 
-              variant="ghost" 
-              size="sm"
-              className="text-primary-foreground hover:bg-primary-foreground/20 p-2"
-            >
-              <Video className="w-5 h-5" />
-            </Button>
-            <Button 
-              onClick={handleVoiceCall} 
-              variant="ghost" 
-              size="sm"
-              className="text-primary-foreground hover:bg-primary-foreground/20 p-2"
-            >
-              <Phone className="w-5 h-5" />
-            </Button>
-            <Button 
-              variant="ghost" 
+        <div className="flex gap-1">
+          {ongoingCall && (
+            <Button
+              onClick={handleJoinCall}
+              variant="secondary"
               size="sm"
-              className="text-primary-foreground hover:bg-primary-foreground/20 p-2"
+              disabled={isCallInProgress(session)}
             >
-              <MoreVertical className="w-5 h-5" />
+              <PhoneIncoming className="w-4 h-4 mr-1" />
+              Join
             </Button>
-          </div>
-        )}
+          )}
+          <Button 
+            onClick={handleVideoCall} 
+            variant="ghost" 
+            size="sm"
+            className="text-primary-foreground hover:bg-primary-foreground/20 p-2"
+          >
+            <Video className="w-5 h-5" />
+          </Button>
+          <Button 
+            onClick={handleVoiceCall} 
+            variant="ghost" 
+            size="sm"
+            className="text-primary-foreground hover:bg-primary-foreground/20 p-2"
+          >
+            <Phone className="w-5 h-5" />
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm"
+            className="text-primary-foreground hover:bg-primary-foreground/20 p-2"
+          >
+            <MoreVertical className="w-5 h-5" />
+          </Button>
+        </div>
       </div>
 
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-2" style={{ backgroundImage: 'linear-gradient(rgba(0,0,0,0.1), rgba(0,0,0,0.1))' }}>
-        {messages.length === 0 ? (
+      <VirtualMessageList
+        ref={listRef}
+        items={messages}
+        focusId={focusedMessageId}
+        onFocused={() => setFocusedMessageId(null)}
+        hasMoreBefore={hasOlder}
+        hasMoreAfter={hasNewer}
+        loadingBefore={loadingOlder}
+        onReachStart={loadOlder}
+        onReachEnd={loadNewer}
+        onNewestVisible={markRead}
+        onJumpToLatest={showLatest}
+        itemClassName="pb-2"
+        style={{ backgroundImage: 'linear-gradient(rgba(0,0,0,0.1), rgba(0,0,0,0.1))' }}
+        empty={
           <div className="flex items-center justify-center h-full">
             <div className="text-center bg-card/50 rounded-lg p-6">
               <p className="text-muted-foreground mb-2">🔒 Messages are end-to-end encrypted</p>
               <p className="text-sm text-muted-foreground">No one outside of this chat can read them.</p>
             </div>
           </div>
-        ) : (
-          messages.map((message) => {
-            const isCurrentUser = message.sender_id === currentUser.id;
-            return (
-              <div
-                key={message.id}
-                className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-1`}
-              >
-                <div 
-                  className={`max-w-[80%] px-3 py-2 rounded-lg shadow-sm animate-fade-in ${
-                    isCurrentUser
-                      ? 'bg-primary text-primary-foreground rounded-br-none'
-                      : 'bg-card text-card-foreground rounded-bl-none'
-                  }`}
+        }
+        renderItem={(message, highlighted) => {
+          const isCurrentUser = message.sender_id === currentUser.id;
+          return (
+            <div
+              className={cn(
+                'flex mb-1 rounded-lg transition-colors',
+                isCurrentUser ? 'justify-end' : 'justify-start',
+                highlighted && 'bg-primary/10'
+              )}
+            >
+              <div className={`max-w-[80%] min-w-0 flex flex-col gap-1 ${isCurrentUser ? 'items-end' : 'items-start'}`}>
+                <ReactionPicker
+                  asAnchor
+                  open={reactingToId === message.id}
+                  onOpenChange={(open) => setReactingToId(open ? message.id : null)}
+                  selected={reactedWith(message, currentUser.id)}
+                  onSelect={(emoji) => toggleReaction(message, emoji)}
                 >
-                  {!isCurrentUser && chatRoom.is_group && (
-                    <p className="text-xs font-medium mb-1 text-primary">
-                      {message.sender.display_name}
-                    </p>
-                  )}
-                  
-                  {message.message_type === 'voice_call' && (
-                    <div className="flex items-center gap-2">
-                      <Phone className="w-4 h-4" />
-                      <span className="text-sm">Voice call</span>
-                    </div>
-                  )}
-                  {message.message_type === 'video_call' && (
-                    <div className="flex items-center gap-2">
-                      <Video className="w-4 h-4" />
-                      <span className="text-sm">Video call</span>
-                    </div>
-                  )}
-                  {message.message_type === 'image' && (
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm">📷 {message.content}</span>
-                    </div>
-                  )}
-                  {message.message_type === 'video' && (
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm">🎥 {message.content}</span>
-                    </div>
-                  )}
-                  {message.message_type === 'file' && (
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm">📄 {message.content}</span>
-                    </div>
-                  )}
-                  {message.message_type === 'text' && (
-                    <p className="text-sm leading-relaxed break-words">{message.content}</p>
-                  )}
-                  <div className={`flex items-center justify-end gap-1 mt-1`}>
-                    <span className={`text-xs ${
-                      isCurrentUser ? 'text-primary-foreground/70' : 'text-muted-foreground'
-                    }`}>
-                      {formatMessageTime(message.created_at)}
-                    </span>
-                    {isCurrentUser && (
-                      <span className="text-primary-foreground/70 text-sm">✓✓</span>
+                  <div
+                    {...longPress(message)}
+                    className={`max-w-full px-3 py-2 rounded-lg shadow-sm animate-fade-in select-none ${
+                      isCurrentUser
+                        ? 'bg-primary text-primary-foreground rounded-br-none'
+                        : 'bg-card text-card-foreground rounded-bl-none'
+                    }`}
+                  >
+                    {!isCurrentUser && chatRoom.is_group && (
+                      <p className="text-xs font-medium mb-1 text-primary">
+                        {message.sender.display_name}
+                      </p>
+                    )}
+                      
+                    {message.reply_to !== undefined && !message.deleted_at && (
+                      <MessageQuote
+                        quote={message.reply_to}
+                        onClick={() => message.reply_to_id && showMessage(message.reply_to_id)}
+                        isOwn={isCurrentUser}
+                        className="mb-1"
+                      />
+                    )}
+                    {message.deleted_at ? (
+                      <p className="text-sm italic opacity-70 flex items-center gap-1">
+                        <Ban className="w-3 h-3" /> This message was deleted
+                      </p>
+                    ) : (
+                      <>
+                      {message.message_type === 'voice_call' && (
+                        <div className="flex items-center gap-2">
+                          <Phone className="w-4 h-4" />
+                          <span className="text-sm">{message.content === 'missed' ? 'Missed voice call' : `Voice call · ${message.content}`}</span>
+                        </div>
+                      )}
+                      {message.message_type === 'video_call' && (
+                        <div className="flex items-center gap-2">
+                          <Video className="w-4 h-4" />
+                          <span className="text-sm">{message.content === 'missed' ? 'Missed video call' : `Video call · ${message.content}`}</span>
+                        </div>
+                      )}
+                      {message.message_type === 'voice' && (
+                        <VoiceMessagePlayer
+                          path={resolveChatFilePath(parseVoiceMetadata(message.metadata)?.path ?? message.content)}
+                          metadata={parseVoiceMetadata(message.metadata)}
+                          isOwn={isCurrentUser}
+                        />
+                      )}
+                      {message.message_type === 'call_recording' && (
+                        <CallRecordingMessage content={message.content} metadata={message.metadata} />
+                      )}
+                      {isAttachmentMessage(message.message_type) && (
+                        <AttachmentMessage
+                          messageType={message.message_type}
+                          content={message.content}
+                          metadata={message.metadata}
+                          isOwn={isCurrentUser}
+                        />
+                      )}
+                      {message.message_type === 'text' && (
+                        <p className="text-sm leading-relaxed break-words">{message.content}</p>
+                      )}
+                      </>
                     )}
+                    {!!message.reply_count && (
+                      <button
+                        type="button"
+                        onClick={() => setThreadRootId(message.id)}
+                        className="text-xs font-medium mt-1 hover:underline"
+                      >
+                        {message.reply_count === 1 ? '1 reply' : `${message.reply_count} replies`}
+                      </button>
+                    )}
+                    <div className={`flex items-center justify-end gap-1 mt-1`}>
+                      <MessageActions
+                        message={message}
+                        currentUserId={currentUser.id}
+                        onReply={startReplying}
+                        onOpenThread={setThreadRootId}
+                        onEdit={startEditing}
+                        onDeleteForMe={deleteForMe}
+                        onDeleteForEveryone={deleteForEveryone}
+                        className="h-4 w-4 mr-auto opacity-60"
+                      />
+                      <span className={`text-xs ${
+                        isCurrentUser ? 'text-primary-foreground/70' : 'text-muted-foreground'
+                      }`}>
+                        {message.edited_at && !message.deleted_at && (
+                          <><EditedMarker message={message} /> · </>
+                        )}
+                        {formatMessageTime(message.created_at)}
+                      </span>
+                      {isCurrentUser && (
+                        <MessageReceipt
+                          message={message}
+                          receipts={receipts}
+                          participants={chatRoom.participants}
+                          isGroup={chatRoom.is_group}
+                          showReads={shareReadReceipts}
+                          className="text-primary-foreground/70"
+                        />
+                      )}
+                    </div>
                   </div>
-                </div>
+                </ReactionPicker>
+                {!message.deleted_at && (
+                  <MessageReactions
+                    reactions={message.reactions ?? []}
+                    currentUserId={currentUser.id}
+                    participants={chatRoom.participants}
+                    onToggle={(emoji) => toggleReaction(message, emoji)}
+                  />
+                )}
               </div>
-            );
-          })
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+            </div>
+          );
+        }}
+      />
 
       {/* Message Input */}
       <div className="p-4 bg-card border-t">
+        {editingMessage && (
+          <div className="mb-3 flex items-center justify-between rounded-lg bg-muted px-3 py-2">
+            <div className="min-w-0">
+              <p className="text-xs font-medium text-primary">Editing message</p>
+              <p className="text-sm text-muted-foreground truncate">{editingMessage.content}</p>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={stopEditing} title="Cancel editing">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="mb-3 flex items-center gap-2">
+            <MessageQuote quote={toQuote(replyingTo)} onClick={() => showMessage(replyingTo.id)} className="flex-1" />
+            <Button type="button" variant="ghost" size="sm" onClick={() => setReplyingTo(null)} title="Cancel reply">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {uploads.length > 0 && (
+          <div className="mb-3 space-y-2">
+            {uploads.map(upload => (
+              <FilePreview
+                key={upload.id}
+                file={upload.file}
+                progress={upload.progress}
+                status={upload.status}
+                onRemove={() => cancelUpload(upload.id)}
+                onPause={() => pauseUpload(upload.id)}
+                onResume={() => resumeUpload(upload.id)}
+              />
+            ))}
+          </div>
+        )}
         {selectedFile && (
           <div className="mb-3">
             <FilePreview 
@@ -456,27 +489,47 @@ export const MobileChatRoom = ({ chatRoom, onBack, currentUser }: MobileChatRoom
           </div>
         )}
         
-        <form onSubmit={sendMessage} className="flex gap-2 items-end">
-          <FileUpload onFileSelect={handleFileSelect} />
+        <form onSubmit={sendMessage} className="relative flex gap-2 items-end">
+          {!editingMessage && <FileUpload onFileSelect={handleFileSelect} />}
           
           <div className="flex-1 bg-background rounded-full border border-border flex items-center px-4 py-2">
             <Input
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => handleComposerChange(e.target.value)}
               placeholder="Message"
               className="flex-1 border-0 bg-transparent focus:ring-0 focus:outline-none p-0"
             />
           </div>
           
-          <Button 
-            type="submit" 
-            disabled={!newMessage.trim() && !selectedFile}
-            className="rounded-full w-12 h-12 p-0 flex items-center justify-center hover:scale-110 transition-transform"
-          >
-            <Send className="w-5 h-5" />
-          </Button>
+          {/* The mic takes the send button's place while there's nothing to send */}
+          {!newMessage.trim() && !selectedFile && !editingMessage && isVoiceRecordingSupported() ? (
+            <VoiceRecorderButton
+              chatRoomId={chatRoom.id}
+              userId={currentUser.id}
+              className="rounded-full w-12 h-12 p-0 flex items-center justify-center transition-transform"
+            />
+          ) : (
+            <Button 
+              type="submit" 
+              disabled={!newMessage.trim() && !selectedFile}
+              className="rounded-full w-12 h-12 p-0 flex items-center justify-center hover:scale-110 transition-transform"
+            >
+              <Send className="w-5 h-5" />
+            </Button>
+          )}
         </form>
       </div>
+
+      <ThreadPanel
+        chatRoomId={chatRoom.id}
+        rootId={threadRootId}
+        currentUser={currentUser}
+        onClose={() => setThreadRootId(null)}
+        onShowInChat={(messageId) => {
+          setThreadRootId(null);
+          showMessage(messageId);
+        }}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -1,9 +1,13 @@
 import { useState, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import { useReadReceiptsSetting } from '@/hooks/useReceipts';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { DeviceSettings } from '@/components/DeviceSettings';
 import { ArrowLeft, Camera, Check, LogOut, Upload } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 
@@ -24,6 +28,8 @@ interface ProfileEditorProps {
 
 export const ProfileEditor = ({ profile, onBack, onUpdate }: ProfileEditorProps) => {
   const { user, signOut } = useAuth();
+  const { devices, preferences, selectDevice, requestAccess } = useMediaDevices();
+  const { enabled: readReceipts, setEnabled: setReadReceipts } = useReadReceiptsSetting(user?.id);
   const [displayName, setDisplayName] = useState(profile.display_name);
   const [username, setUsername] = useState(profile.username);
   const [avatarUrl, setAvatarUrl] = useState(profile.avatar_url || '');
@@ -195,6 +201,38 @@ export const ProfileEditor = ({ profile, onBack, onUpdate }: ProfileEditorProps)
           </div>
         </div>
 
+        {/* Call Devices */}
+        <div className="space-y-4 max-w-md mx-auto">
+          <div>
+            <h2 className="text-sm font-semibold">Calls</h2>
+            <p className="text-xs text-muted-foreground mt-1">
+              Devices used for voice and video calls on this device. Changes are saved immediately.
+            </p>
+          </div>
+          <DeviceSettings
+            devices={devices}
+            preferences={preferences}
+            onSelect={selectDevice}
+            onRequestAccess={requestAccess}
+          />
+        </div>
+
+        {/* Privacy */}
+        <div className="space-y-4 max-w-md mx-auto">
+          <h2 className="text-sm font-semibold">Privacy</h2>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <label htmlFor="read-receipts" className="text-sm font-medium">
+                Read receipts
+              </label>
+              <p className="text-xs text-muted-foreground mt-1">
+                When off, others won't see when you've read their messages, and you won't see when they've read yours.
+              </p>
+            </div>
+            <Switch id="read-receipts" checked={readReceipts} onCheckedChange={setReadReceipts} />
+          </div>
+        </div>
+
         {/* Action Buttons */}
         <div className="max-w-md mx-auto space-y-3">
           <Button 
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Popover, PopoverAnchor, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface ReactionPickerProps {
+  // Emojis we've already reacted with, shown selected; picking one again
+  // takes it back
+  selected?: string[];
+  onSelect: (emoji: string) => void;
+  // The element the picker opens from. A trigger opens it on click; an
+  // anchor only positions it, for pickers opened some other way (long press).
+  children: React.ReactNode;
+  asAnchor?: boolean;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export const ReactionPicker: React.FC<ReactionPickerProps> = ({
+  selected = [],
+  onSelect,
+  children,
+  asAnchor = false,
+  open: controlledOpen,
+  onOpenChange,
+}) => {
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const open = controlledOpen ?? uncontrolledOpen;
+  const setOpen = onOpenChange ?? setUncontrolledOpen;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      {asAnchor ? <PopoverAnchor asChild>{children}</PopoverAnchor> : <PopoverTrigger asChild>{children}</PopoverTrigger>}
+      <PopoverContent side="top" className="w-auto p-1 rounded-full">
+        <div className="flex gap-0.5">
+          {QUICK_REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                onSelect(emoji);
+                setOpen(false);
+              }}
+              className={cn(
+                'w-9 h-9 rounded-full text-xl leading-none transition-transform hover:scale-125 hover:bg-accent',
+                selected.includes(emoji) && 'bg-primary/15'
+              )}
+              title={selected.includes(emoji) ? 'Remove reaction' : `React with ${emoji}`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
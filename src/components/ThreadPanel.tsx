@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { Clock, Loader2, Send, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useSendMessage, useThread } from '@/hooks/useChat';
+import { cn } from '@/lib/utils';
+import { ChatMessage, describeMessage } from '@/utils/messages';
+
+interface ThreadPanelProps {
+  chatRoomId: string;
+  // The thread's first message; the panel is closed while this is null
+  rootId: string | null;
+  currentUser: User;
+  onClose: () => void;
+  // Goes to a message in the room's own message list
+  onShowInChat: (messageId: string) => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const ThreadMessage = ({
+  message,
+  isOwn,
+  onShowInChat,
+}: {
+  message: ChatMessage;
+  isOwn: boolean;
+  onShowInChat: (messageId: string) => void;
+}) => (
+  <button
+    type="button"
+    onClick={() => onShowInChat(message.id)}
+    disabled={!!message.status}
+    className="block w-full text-left rounded-lg px-3 py-2 hover:bg-accent transition-colors"
+    title="Show in chat"
+  >
+    <div className="flex items-center justify-between gap-2">
+      <span className={cn('text-xs font-medium', isOwn ? 'text-primary' : 'text-foreground')}>
+        {isOwn ? 'You' : message.sender.display_name}
+      </span>
+      <span className="text-xs text-muted-foreground flex items-center gap-1">
+        {message.status === 'queued' && <WifiOff className="w-3 h-3" />}
+        {message.status === 'sending' && <Clock className="w-3 h-3" />}
+        {formatTime(message.created_at)}
+      </span>
+    </div>
+    <p className={cn('text-sm break-words whitespace-pre-wrap', message.deleted_at && 'italic text-muted-foreground')}>
+      {describeMessage(message)}
+    </p>
+  </button>
+);
+
+const ThreadContent = ({
+  chatRoomId,
+  rootId,
+  currentUser,
+  onShowInChat,
+}: Omit<ThreadPanelProps, 'rootId' | 'onClose'> & { rootId: string }) => {
+  const { root, replies, loading } = useThread(rootId);
+  const sendText = useSendMessage(chatRoomId, currentUser);
+  const [reply, setReply] = useState('');
+
+  const sendReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim() || !root) return;
+    sendText(reply.trim(), root);
+    setReply('');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex-1 overflow-y-auto space-y-1 -mx-3">
+        {root ? (
+          <div className="border-b pb-2 mb-2">
+            <ThreadMessage message={root} isOwn={root.sender_id === currentUser.id} onShowInChat={onShowInChat} />
+          </div>
+        ) : (
+          <p className="px-3 pb-2 text-sm italic text-muted-foreground">Original message unavailable</p>
+        )}
+        {replies.length === 0 ? (
+          <p className="px-3 text-sm text-muted-foreground">No replies yet</p>
+        ) : (
+          replies.map(message => (
+            <ThreadMessage
+              key={message.id}
+              message={message}
+              isOwn={message.sender_id === currentUser.id}
+              onShowInChat={onShowInChat}
+            />
+          ))
+        )}
+      </div>
+      <form onSubmit={sendReply} className="flex gap-2 pt-3 border-t">
+        <Input
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          placeholder="Reply in thread..."
+          className="flex-1"
+          disabled={!root}
+        />
+        <Button type="submit" size="sm" disabled={!reply.trim() || !root}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </>
+  );
+};
+
+// A thread's first message and its replies, beside the chat
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({ rootId, onClose, ...props }) => (
+  <Sheet open={!!rootId} onOpenChange={(open) => !open && onClose()}>
+    <SheetContent side="right" className="w-full sm:max-w-md flex flex-col">
+      <SheetHeader>
+        <SheetTitle>Thread</SheetTitle>
+      </SheetHeader>
+      {rootId && <ThreadContent rootId={rootId} {...props} />}
+    </SheetContent>
+  </Sheet>
+);
@@ -7,6 +7,7 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Search, Users } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { usePresence } from '@/hooks/usePresence';
 
 interface Profile {
   id: string;
@@ -24,6 +25,7 @@ interface UserSearchProps {
 
 export const UserSearch = ({ onBack, onSelectUser }: UserSearchProps) => {
   const { user } = useAuth();
+  const { stateOf } = usePresence();
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(false);
@@ -154,7 +156,7 @@ export const UserSearch = ({ onBack, onSelectUser }: UserSearchProps) => {
                             <p className="text-sm text-muted-foreground">
                               @{profile.username}
                             </p>
-                            {profile.is_online && (
+                            {stateOf(profile.user_id) === 'online' && (
                               <Badge variant="secondary" className="mt-1">
                                 Online
                               </Badge>
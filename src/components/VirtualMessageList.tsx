@@ -0,0 +1,284 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useRef, useState } from 'react';
+import { ArrowDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+export interface VirtualMessageListHandle {
+  scrollToEnd: () => void;
+}
+
+interface VirtualMessageListProps<T extends { id: string }> {
+  items: T[];
+  renderItem: (item: T, highlighted: boolean) => React.ReactNode;
+  // Scrolled to and highlighted once it's among the items; onFocused then
+  // lets the caller clear it
+  focusId?: string | null;
+  onFocused?: () => void;
+  // Older/newer messages exist that aren't loaded yet
+  hasMoreBefore?: boolean;
+  hasMoreAfter?: boolean;
+  loadingBefore?: boolean;
+  onReachStart?: () => void;
+  onReachEnd?: () => void;
+  // Shown when scrolled away from the newest message
+  onJumpToLatest?: () => void;
+  // The newest item in view, whenever that changes
+  onNewestVisible?: (item: T) => void;
+  empty?: React.ReactNode;
+  footer?: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+  itemClassName?: string;
+}
+
+const ESTIMATED_HEIGHT = 72;
+// Rendered beyond the visible area so fast scrolling doesn't show gaps
+const OVERSCAN_PX = 800;
+// How close to either end before the next page is asked for
+const EDGE_THRESHOLD_PX = 400;
+// Within this of the bottom counts as "at the bottom", and new messages keep
+// the list scrolled there
+const STICK_THRESHOLD_PX = 48;
+const HIGHLIGHT_MS = 2000;
+
+const MeasuredItem = ({
+  id,
+  observer,
+  className,
+  children,
+}: {
+  id: string;
+  observer: ResizeObserver | null;
+  className?: string;
+  children: React.ReactNode;
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element || !observer) return;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+
+  return <div ref={ref} data-message-id={id} className={className}>{children}</div>;
+};
+
+// Only the messages near the viewport are in the DOM; the rest are stood in
+// for by spacers sized from measured (or, until rendered once, estimated)
+// heights. When items are added above or get measured, the scroll position is
+// corrected so the message at the top of the viewport stays put.
+function VirtualMessageListInner<T extends { id: string }>(
+  {
+    items,
+    renderItem,
+    focusId,
+    onFocused,
+    hasMoreBefore = false,
+    hasMoreAfter = false,
+    loadingBefore = false,
+    onReachStart,
+    onReachEnd,
+    onJumpToLatest,
+    onNewestVisible,
+    empty,
+    footer,
+    className,
+    style,
+    itemClassName,
+  }: VirtualMessageListProps<T>,
+  ref: React.ForwardedRef<VirtualMessageListHandle>
+) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [observer, setObserver] = useState<ResizeObserver | null>(null);
+  const [awayFromEnd, setAwayFromEnd] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const stickToEndRef = useRef(true);
+  // The first visible message and how far its top sits from the scroll position
+  const anchorRef = useRef<{ id: string; offset: number } | null>(null);
+  const pendingScrollRef = useRef<string | null>(null);
+  // Set by scrollToEnd until we get there, which may take a reload of the
+  // newest page first
+  const endRequestedRef = useRef(false);
+
+  const offsets = new Array<number>(items.length + 1);
+  offsets[0] = 0;
+  items.forEach((item, index) => {
+    offsets[index + 1] = offsets[index] + (heightsRef.current.get(item.id) ?? ESTIMATED_HEIGHT);
+  });
+
+  // The last item starting at or above `y`
+  const indexAt = (y: number) => {
+    let low = 0;
+    let high = items.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (offsets[mid] <= y) low = mid;
+      else high = mid - 1;
+    }
+    return Math.max(0, low);
+  };
+
+  const start = items.length ? indexAt(viewport.top - OVERSCAN_PX) : 0;
+  const end = items.length ? indexAt(viewport.top + viewport.height + OVERSCAN_PX) + 1 : 0;
+
+  useEffect(() => {
+    const resizeObserver = new ResizeObserver((entries) => {
+      let changed = false;
+      entries.forEach((entry) => {
+        const element = entry.target as HTMLElement;
+        if (element === scrollerRef.current) {
+          setViewport({ top: element.scrollTop, height: element.clientHeight });
+          return;
+        }
+        const id = element.dataset.messageId;
+        if (id && heightsRef.current.get(id) !== element.offsetHeight) {
+          heightsRef.current.set(id, element.offsetHeight);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion(version => version + 1);
+    });
+    if (scrollerRef.current) resizeObserver.observe(scrollerRef.current);
+    setObserver(resizeObserver);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Corrects the scroll position after every render; see the comment above
+  useLayoutEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+
+    const pending = pendingScrollRef.current;
+    if (pending) {
+      const index = items.findIndex(item => item.id === pending);
+      if (index < 0) return;
+      const element = scroller.querySelector(`[data-message-id="${CSS.escape(pending)}"]`);
+      if (element) {
+        element.scrollIntoView({ block: 'center' });
+        pendingScrollRef.current = null;
+        onFocused?.();
+      } else {
+        // Bring it into the rendered range first; the scroll event's render
+        // finds it
+        scroller.scrollTop = offsets[index] - scroller.clientHeight / 2;
+      }
+      return;
+    }
+
+    if (stickToEndRef.current) {
+      scroller.scrollTop = scroller.scrollHeight;
+      return;
+    }
+
+    const anchor = anchorRef.current;
+    const index = anchor ? items.findIndex(item => item.id === anchor.id) : -1;
+    if (index >= 0) {
+      const target = offsets[index] - anchor!.offset;
+      if (Math.abs(scroller.scrollTop - target) > 1) scroller.scrollTop = target;
+    }
+  });
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const newestVisible = items.length && viewport.height ? items[indexAt(viewport.top + viewport.height - 1)] : undefined;
+  useEffect(() => {
+    if (newestVisible) onNewestVisible?.(newestVisible);
+  }, [newestVisible, onNewestVisible]);
+
+  // A first page too short to scroll can't trigger loading by scrolling
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (scroller && hasMoreBefore && !loadingBefore && scroller.scrollHeight <= scroller.clientHeight) {
+      onReachStart?.();
+    }
+  }, [items.length, hasMoreBefore, loadingBefore, onReachStart]);
+
+  useEffect(() => {
+    if (!focusId) return;
+    pendingScrollRef.current = focusId;
+    endRequestedRef.current = false;
+    stickToEndRef.current = false;
+    setHighlightedId(focusId);
+    setViewport(current => ({ ...current }));
+  }, [focusId]);
+
+  useImperativeHandle(ref, () => ({
+    scrollToEnd: () => {
+      stickToEndRef.current = true;
+      endRequestedRef.current = true;
+      setAwayFromEnd(false);
+      const scroller = scrollerRef.current;
+      if (scroller) scroller.scrollTop = scroller.scrollHeight;
+    },
+  }), []);
+
+  const handleScroll = () => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    setViewport({ top: scroller.scrollTop, height: scroller.clientHeight });
+
+    const distanceFromEnd = scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight;
+    if (endRequestedRef.current) {
+      if (!hasMoreAfter && distanceFromEnd < STICK_THRESHOLD_PX) endRequestedRef.current = false;
+      stickToEndRef.current = true;
+    } else {
+      stickToEndRef.current = !hasMoreAfter && !pendingScrollRef.current && distanceFromEnd < STICK_THRESHOLD_PX;
+    }
+    setAwayFromEnd(hasMoreAfter || distanceFromEnd > scroller.clientHeight);
+
+    if (items.length > 0) {
+      const index = indexAt(scroller.scrollTop);
+      anchorRef.current = { id: items[index].id, offset: offsets[index] - scroller.scrollTop };
+    }
+
+    if (hasMoreBefore && scroller.scrollTop < EDGE_THRESHOLD_PX) onReachStart?.();
+    if (hasMoreAfter && distanceFromEnd < EDGE_THRESHOLD_PX) onReachEnd?.();
+  };
+
+  return (
+    <div className={cn('relative flex-1 min-h-0', className)} style={style}>
+      <div ref={scrollerRef} onScroll={handleScroll} className="h-full overflow-y-auto p-4">
+        {items.length === 0 && !hasMoreBefore ? empty : (
+          <div style={{ paddingTop: offsets[start], paddingBottom: offsets[items.length] - offsets[end] }}>
+            {items.slice(start, end).map(item => (
+              <MeasuredItem key={item.id} id={item.id} observer={observer} className={itemClassName}>
+                {renderItem(item, item.id === highlightedId)}
+              </MeasuredItem>
+            ))}
+          </div>
+        )}
+        {footer}
+      </div>
+
+      {loadingBefore && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 rounded-full bg-background/90 p-1 shadow">
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </div>
+      )}
+      {onJumpToLatest && awayFromEnd && (
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          onClick={onJumpToLatest}
+          className="absolute bottom-4 right-4 rounded-full w-9 h-9 p-0 shadow-md"
+          title="Jump to latest"
+        >
+          <ArrowDown className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export const VirtualMessageList = forwardRef(VirtualMessageListInner) as <T extends { id: string }>(
+  props: VirtualMessageListProps<T> & { ref?: React.Ref<VirtualMessageListHandle> }
+) => React.ReactElement;
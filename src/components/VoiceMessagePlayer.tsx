@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Pause, Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useMediaSource, useSignedUrl } from '@/hooks/useSignedUrl';
+import { formatVoiceDuration, VoiceMessageMetadata, WAVEFORM_BARS } from '@/utils/voiceMessage';
+
+interface VoiceMessagePlayerProps {
+  path: string | null;
+  metadata: VoiceMessageMetadata | null;
+  // Inverted colors for the sender's own (primary colored) bubble
+  isOwn?: boolean;
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Only one voice message plays at a time
+let playingAudio: HTMLAudioElement | null = null;
+
+// Inline player: the waveform doubles as the scrubber
+export const VoiceMessagePlayer: React.FC<VoiceMessagePlayerProps> = ({ path, metadata, isOwn = false }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const { url, refresh } = useSignedUrl(path);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const scrubbingRef = useRef(false);
+  const [playing, setPlaying] = useState(false);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [durationMs, setDurationMs] = useState(metadata?.duration_ms ?? 0);
+  const [rateIndex, setRateIndex] = useState(0);
+
+  const waveform = metadata?.waveform.length ? metadata.waveform : new Array(WAVEFORM_BARS).fill(0.3);
+  const progress = durationMs > 0 ? Math.min(1, currentMs / durationMs) : 0;
+
+  useMediaSource(audioRef, url);
+
+  useEffect(() => {
+    if (!audioRef.current) return;
+    // The default survives the source being swapped for a renewed URL
+    audioRef.current.defaultPlaybackRate = PLAYBACK_RATES[rateIndex];
+    audioRef.current.playbackRate = PLAYBACK_RATES[rateIndex];
+  }, [rateIndex]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio || !url) return;
+
+    if (audio.paused) {
+      if (playingAudio && playingAudio !== audio) playingAudio.pause();
+      playingAudio = audio;
+      audio.play().catch(error => console.error('Error playing voice message:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (clientX: number) => {
+    const audio = audioRef.current;
+    const rect = waveformRef.current?.getBoundingClientRect();
+    if (!audio || !rect || durationMs <= 0) return;
+
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    audio.currentTime = (fraction * durationMs) / 1000;
+    setCurrentMs(fraction * durationMs);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    scrubbingRef.current = true;
+    seekTo(event.clientX);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubbingRef.current) seekTo(event.clientX);
+  };
+
+  const handleLoadedMetadata = () => {
+    const duration = audioRef.current?.duration;
+    // MediaRecorder webm files often report Infinity until fully played
+    if (duration && Number.isFinite(duration)) setDurationMs(duration * 1000);
+  };
+
+  return (
+    <div className="flex items-center gap-2 min-w-[220px]">
+      <audio
+        ref={audioRef}
+        preload="metadata"
+        onLoadedMetadata={handleLoadedMetadata}
+        onError={refresh}
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => {
+          setPlaying(false);
+          setCurrentMs(0);
+        }}
+        onTimeUpdate={() => {
+          if (!scrubbingRef.current && audioRef.current) setCurrentMs(audioRef.current.currentTime * 1000);
+        }}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={togglePlayback}
+        className={cn('rounded-full w-9 h-9 p-0 shrink-0', isOwn && 'hover:bg-primary-foreground/20 text-primary-foreground')}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+
+      <div className="flex-1 min-w-0">
+        <div
+          ref={waveformRef}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(durationMs / 1000)}
+          aria-valuenow={Math.round(currentMs / 1000)}
+          className="flex items-center gap-0.5 h-8 cursor-pointer touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => {
+            scrubbingRef.current = false;
+          }}
+          onPointerCancel={() => {
+            scrubbingRef.current = false;
+          }}
+        >
+          {waveform.map((level, index) => (
+            <span
+              key={index}
+              className={cn(
+                'flex-1 rounded-full',
+                index / waveform.length < progress
+                  ? (isOwn ? 'bg-primary-foreground' : 'bg-primary')
+                  : (isOwn ? 'bg-primary-foreground/40' : 'bg-muted-foreground/40')
+              )}
+              style={{ height: `${Math.max(12, level * 100)}%` }}
+            />
+          ))}
+        </div>
+        <span className={cn('text-xs tabular-nums', isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+          {formatVoiceDuration(playing || currentMs > 0 ? currentMs : durationMs)}
+        </span>
+      </div>
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => setRateIndex((rateIndex + 1) % PLAYBACK_RATES.length)}
+        className={cn('h-7 px-2 text-xs rounded-full shrink-0', isOwn && 'hover:bg-primary-foreground/20 text-primary-foreground')}
+        title="Playback speed"
+      >
+        {PLAYBACK_RATES[rateIndex]}×
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, Loader2, Mic } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  formatVoiceDuration,
+  sendVoiceMessage,
+  startVoiceRecording,
+  MAX_VOICE_MESSAGE_MS,
+  MIN_VOICE_MESSAGE_MS,
+  VoiceRecordingSession
+} from '@/utils/voiceMessage';
+
+interface VoiceRecorderButtonProps {
+  chatRoomId: string;
+  userId: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Sliding this far left while holding throws the recording away
+const CANCEL_SWIPE_PX = 100;
+const LIVE_WAVEFORM_BARS = 32;
+
+// Hold to record, release to send, slide left to cancel. While recording the
+// bar covers the rest of the composer, so the parent form must be `relative`.
+export const VoiceRecorderButton: React.FC<VoiceRecorderButtonProps> = ({
+  chatRoomId,
+  userId,
+  disabled = false,
+  className
+}) => {
+  const [recording, setRecording] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [levels, setLevels] = useState<number[]>([]);
+  const [swipeOffset, setSwipeOffset] = useState(0);
+
+  const sessionRef = useRef<VoiceRecordingSession | null>(null);
+  // Set while the pointer is down; the microphone may open after release
+  const holdingRef = useRef(false);
+  const startXRef = useRef(0);
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => {
+      if (sessionRef.current) setElapsedMs(Date.now() - sessionRef.current.startedAt);
+    }, 200);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Don't leave the microphone open if the chat is closed mid-recording
+  useEffect(() => () => sessionRef.current?.cancel(), []);
+
+  const reset = () => {
+    sessionRef.current = null;
+    holdingRef.current = false;
+    setRecording(false);
+    setElapsedMs(0);
+    setLevels([]);
+    setSwipeOffset(0);
+  };
+
+  const cancel = () => {
+    sessionRef.current?.cancel();
+    reset();
+  };
+
+  const finish = async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    reset();
+
+    const recording = await session.stop();
+    if (recording.metadata.duration_ms < MIN_VOICE_MESSAGE_MS) {
+      toast({
+        title: "Hold to record",
+        description: "Keep holding the microphone while you speak",
+      });
+      return;
+    }
+
+    setSending(true);
+    try {
+      await sendVoiceMessage(recording, chatRoomId, userId);
+    } catch (error) {
+      console.error('Error sending voice message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send voice message",
+        variant: "destructive",
+      });
+    }
+    setSending(false);
+  };
+
+  const handlePointerDown = async (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (disabled || sending || sessionRef.current) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    holdingRef.current = true;
+    startXRef.current = event.clientX;
+
+    try {
+      const session = await startVoiceRecording({
+        onLevel: level => setLevels(prev => [...prev.slice(1 - LIVE_WAVEFORM_BARS), level]),
+        onMaxDuration: () => finish(),
+      });
+      sessionRef.current = session;
+      // Released (or cancelled) while the microphone was opening
+      if (!holdingRef.current) {
+        cancel();
+        return;
+      }
+      setRecording(true);
+    } catch (error) {
+      holdingRef.current = false;
+      console.error('Error starting voice recording:', error);
+      toast({
+        title: "Error",
+        description: "Could not access the microphone",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!holdingRef.current) return;
+    const offset = Math.min(0, event.clientX - startXRef.current);
+    setSwipeOffset(offset);
+    if (offset < -CANCEL_SWIPE_PX) cancel();
+  };
+
+  const handlePointerUp = () => {
+    if (!holdingRef.current) return;
+    holdingRef.current = false;
+    if (sessionRef.current) finish();
+  };
+
+  const peak = Math.max(0.05, ...levels);
+
+  return (
+    <>
+      {recording && (
+        <div className="absolute inset-0 z-10 flex items-center gap-3 rounded-full bg-card pl-4 pr-16">
+          <span className="w-2 h-2 rounded-full bg-destructive animate-pulse shrink-0" />
+          <span className="text-sm tabular-nums shrink-0">
+            {formatVoiceDuration(elapsedMs)}
+            <span className="text-muted-foreground"> / {formatVoiceDuration(MAX_VOICE_MESSAGE_MS)}</span>
+          </span>
+          <div className="flex-1 flex items-center gap-0.5 h-8 overflow-hidden">
+            {levels.map((level, index) => (
+              <span
+                key={index}
+                className="w-1 rounded-full bg-primary shrink-0"
+                style={{ height: `${Math.max(10, (level / peak) * 100)}%` }}
+              />
+            ))}
+          </div>
+          <span
+            className="flex items-center text-xs text-muted-foreground shrink-0 transition-transform"
+            style={{ transform: `translateX(${swipeOffset / 2}px)` }}
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Slide to cancel
+          </span>
+        </div>
+      )}
+      <Button
+        type="button"
+        disabled={disabled || sending}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={cancel}
+        onContextMenu={(event) => event.preventDefault()}
+        className={cn('relative z-20 touch-none select-none', recording && 'scale-125 bg-destructive hover:bg-destructive', className)}
+        title="Hold to record a voice message"
+      >
+        {sending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Mic className="w-5 h-5" />}
+      </Button>
+    </>
+  );
+};
@@ -1,68 +1,226 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Phone, PhoneOff, Video, VideoOff, Mic, MicOff } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DeviceSettings } from '@/components/DeviceSettings';
+import { CallParticipantTile } from '@/components/CallParticipantTile';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { PhoneOff, Video, VideoOff, Mic, MicOff, ScreenShare, ScreenShareOff, Settings, LayoutGrid, SquareUser, CircleDot, CircleStop } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
 import { toast } from '@/hooks/use-toast';
+import { describeCallPhase, CallEndReason, CallPhase } from '@/utils/callSession';
+import { createCallTransport, CallTransport, CallTransportMode } from '@/utils/callTransport';
+import { acquireCallChannel, CallChannel, CallMember } from '@/utils/callChannel';
+import { getRtcConfiguration } from '@/utils/iceServers';
+import { captureScreen, isScreenShareSupported } from '@/utils/screenShare';
+import {
+  findPreferredDevice,
+  getDeviceConstraints,
+  isTrackFromDevice,
+  listMediaDevices,
+  loadDevicePreferences,
+  pickDevice
+} from '@/utils/mediaDevices';
+import {
+  createCallStatsCollector,
+  saveCallQualityReport,
+  CallQuality,
+  CallStatsCollector,
+  ConnectionStatsSample
+} from '@/utils/callStats';
+import { createBitrateController, BitrateController, VideoQualityLevel } from '@/utils/bitrateController';
+import { createAudioLevelMonitor, AudioLevelMonitor, SpeakerState } from '@/utils/audioLevels';
+import { createCallRecorder, isCallRecordingSupported, shareCallRecording, CallRecorder } from '@/utils/callRecorder';
+import { cn } from '@/lib/utils';
 
 interface WebRTCCallProps {
+  callId?: string;
+  callerId: string;
   chatRoomId: string;
   isIncoming?: boolean;
   callType: 'voice' | 'video';
-  onEndCall: () => void;
+  onEndCall: (reason?: CallEndReason) => void;
   participants: string[];
+  phase?: CallPhase;
+  transport?: CallTransportMode;
+  onConnected?: () => void;
 }
 
+type ParticipantProfile = {
+  user_id: string;
+  display_name: string;
+  avatar_url: string | null;
+};
+
+type RemoteMediaState = {
+  audioMuted: boolean;
+  videoOff: boolean;
+};
+
+type CallLayout = 'speaker' | 'gallery';
+
+// If everyone else drops out of presence without saying goodbye (closed tab,
+// lost network), wait this long for them to come back before ending the call
+const ALONE_GRACE_MS = 15_000;
+
+const galleryColumns = (count: number) =>
+  count <= 1 ? 'grid-cols-1' : count <= 4 ? 'grid-cols-2' : count <= 9 ? 'grid-cols-3' : 'grid-cols-4';
+
 export const WebRTCCall: React.FC<WebRTCCallProps> = ({
+  callId,
+  callerId,
   chatRoomId,
   isIncoming = false,
   callType,
   onEndCall,
-  participants
+  participants,
+  phase = 'active',
+  transport = 'mesh',
+  onConnected
 }) => {
   const { user } = useAuth();
-  const [isConnected, setIsConnected] = useState(false);
+  const { devices, preferences, selectDevice, refresh: refreshDevices, requestAccess } = useMediaDevices();
   const [isMuted, setIsMuted] = useState(false);
   const [isVideoOff, setIsVideoOff] = useState(callType === 'voice');
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [remoteStreams, setRemoteStreams] = useState<Map<string, MediaStream>>(new Map());
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  // Remote participant whose screen is shown as the focused tile
+  const [screenSharerId, setScreenSharerId] = useState<string | null>(null);
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const [connectionQuality, setConnectionQuality] = useState<
+    Map<string, { quality: CallQuality; sample: ConnectionStatsSample }>
+  >(new Map());
+  // Remote participants who stopped sending us video because of bandwidth
+  const [pausedVideoFrom, setPausedVideoFrom] = useState<Set<string>>(new Set());
+  const [profiles, setProfiles] = useState<Map<string, ParticipantProfile>>(new Map());
+  const [remoteMediaState, setRemoteMediaState] = useState<Map<string, RemoteMediaState>>(new Map());
+  const [speakerState, setSpeakerState] = useState<SpeakerState>({ activeSpeakerId: null, speaking: new Set() });
+  const [layout, setLayout] = useState<CallLayout>('speaker');
+  // Everyone currently in the call's presence, including late joiners
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  // Remote participants who told us they're recording
+  const [recordingBy, setRecordingBy] = useState<Set<string>>(new Set());
+  const [showRecordOptions, setShowRecordOptions] = useState(false);
   
   const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideosRef = useRef<Map<string, HTMLVideoElement>>(new Map());
-  const peerConnectionsRef = useRef<Map<string, RTCPeerConnection>>(new Map());
-  const channelRef = useRef<any>(null);
+  const transportRef = useRef<CallTransport | null>(null);
+  const channelRef = useRef<CallChannel | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const activeRef = useRef(false);
+  const switchingDevicesRef = useRef<Set<MediaDeviceKind>>(new Set());
+  const statsRef = useRef<CallStatsCollector | null>(null);
+  const bitrateRef = useRef<BitrateController | null>(null);
+  const joinedAtRef = useRef(Date.now());
+  const audioMonitorRef = useRef<AudioLevelMonitor | null>(null);
+  const aloneTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const recorderRef = useRef<CallRecorder | null>(null);
+  const profilesRef = useRef(profiles);
+
+  profilesRef.current = profiles;
+
+  // Empty string means the system default output
+  const audioOutputId = findPreferredDevice(devices.audiooutput, preferences.audiooutput)?.deviceId ?? '';
 
   useEffect(() => {
     if (!user) return;
 
+    activeRef.current = true;
     initializeCall();
-    setupSignaling();
 
     return () => {
+      activeRef.current = false;
       cleanup();
     };
   }, [user, chatRoomId]);
 
-  const initializeCall = async () => {
+  const callParticipantIds = Array.from(new Set([...participants, ...memberIds]));
+  const callParticipantKey = callParticipantIds.sort().join(',');
+
+  useEffect(() => {
+    const others = callParticipantKey.split(',').filter(id => id && id !== user?.id);
+    if (others.length === 0) return;
+
+    supabase
+      .from('profiles')
+      .select('user_id, display_name, avatar_url')
+      .in('user_id', others)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading call participants:', error);
+          return;
+        }
+        setProfiles(new Map(data.map(profile => [profile.user_id, profile])));
+      });
+  }, [callParticipantKey, user]);
+
+  // Follow device changes: switch to the preferred device when it's picked or
+  // plugged in, and away from one that was unplugged
+  useEffect(() => {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+
+    const inputs: [MediaDeviceKind, MediaStreamTrack | undefined][] = [
+      ['audioinput', stream.getAudioTracks()[0]],
+      ['videoinput', stream.getVideoTracks()[0]]
+    ];
+    inputs.forEach(([kind, track]) => {
+      const target = pickDevice(devices[kind], preferences[kind]);
+      if (!track || !target?.deviceId || switchingDevicesRef.current.has(kind)) return;
+
+      if (track.readyState === 'ended' || !isTrackFromDevice(track, target)) {
+        switchInputDevice(kind, target);
+      }
+    });
+  }, [devices, preferences]);
+
+  const getLocalMedia = async () => {
+    const video = callType === 'video';
+    const available = await listMediaDevices();
+    const saved = loadDevicePreferences(user!.id);
+    const microphone = findPreferredDevice(available.audioinput, saved.audioinput);
+    const camera = findPreferredDevice(available.videoinput, saved.videoinput);
+
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: callType === 'video'
+      return await navigator.mediaDevices.getUserMedia({
+        audio: getDeviceConstraints(microphone),
+        video: video && getDeviceConstraints(camera)
       });
-      
+    } catch (error) {
+      if (!microphone && !camera) throw error;
+      // The saved device may be busy or gone; fall back to the defaults
+      console.warn('Preferred devices unavailable, using defaults:', error);
+      return navigator.mediaDevices.getUserMedia({ audio: true, video });
+    }
+  };
+
+  const initializeCall = async () => {
+    try {
+      const [stream, rtcConfig] = await Promise.all([
+        getLocalMedia(),
+        getRtcConfiguration()
+      ]);
+
+      // The call may have been hung up while we waited for permission
+      if (!activeRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      localStreamRef.current = stream;
       setLocalStream(stream);
       if (localVideoRef.current) {
         localVideoRef.current.srcObject = stream;
       }
 
-      // Create peer connections for each participant
-      participants.forEach(participantId => {
-        if (participantId !== user?.id) {
-          createPeerConnection(participantId, stream);
-        }
-      });
+      // Labels are only available once media access has been granted
+      refreshDevices();
 
-      setIsConnected(true);
+      // Only start signaling once we have media to offer
+      setupSignaling(stream, rtcConfig);
     } catch (error) {
       console.error('Error accessing media devices:', error);
       toast({
@@ -70,129 +228,191 @@ export const WebRTCCall: React.FC<WebRTCCallProps> = ({
         description: "Could not access camera/microphone",
         variant: "destructive",
       });
-      onEndCall();
+      onEndCall('failed');
     }
   };
 
-  const createPeerConnection = (participantId: string, stream: MediaStream) => {
-    const peerConnection = new RTCPeerConnection({
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' }
-      ]
+  const setupSignaling = (stream: MediaStream, rtcConfig: RTCConfiguration) => {
+    const channel = acquireCallChannel(chatRoomId);
+    const userId = user!.id;
+    // Whether anyone else has been in the call; until then we're still ringing
+    let othersSeen = false;
+    let knownMembers = new Set<string>();
+
+    channel.on<{ from: string; to?: string[]; paused: boolean }>('video-paused', (payload) => {
+      if (!payload.to?.includes(userId)) return;
+      setPausedVideoFrom(prev => {
+        const next = new Set(prev);
+        if (payload.paused) next.add(payload.from);
+        else next.delete(payload.from);
+        return next;
+      });
     });
 
-    // Add local stream tracks
-    stream.getTracks().forEach(track => {
-      peerConnection.addTrack(track, stream);
+    channel.on<{ from: string; active: boolean }>('screen-share', (payload) => {
+      if (payload.from === userId) return;
+      setScreenSharerId(prev => {
+        if (payload.active) return payload.from;
+        return prev === payload.from ? null : prev;
+      });
     });
 
-    // Handle remote stream
-    peerConnection.ontrack = (event) => {
-      const [remoteStream] = event.streams;
-      setRemoteStreams(prev => new Map(prev.set(participantId, remoteStream)));
-      
-      const videoElement = remoteVideosRef.current.get(participantId);
-      if (videoElement) {
-        videoElement.srcObject = remoteStream;
-      }
-    };
-
-    // Handle ICE candidates
-    peerConnection.onicecandidate = (event) => {
-      if (event.candidate && channelRef.current) {
-        channelRef.current.send({
-          type: 'broadcast',
-          event: 'ice-candidate',
-          payload: {
-            candidate: event.candidate,
-            from: user?.id,
-            to: participantId,
-            chatRoomId
-          }
-        });
-      }
-    };
+    channel.on<{ from: string; audioMuted?: boolean; videoOff?: boolean }>('media-state', (payload) => {
+      if (payload.from === userId) return;
+      setRemoteMediaState(prev => new Map(prev).set(payload.from, {
+        audioMuted: !!payload.audioMuted,
+        videoOff: !!payload.videoOff
+      }));
+    });
 
-    peerConnectionsRef.current.set(participantId, peerConnection);
-    return peerConnection;
-  };
+    channel.on<{ from: string; active: boolean }>('recording', (payload) => {
+      if (payload.from === userId) return;
+      setRecordingBy(prev => {
+        const next = new Set(prev);
+        if (payload.active) next.add(payload.from);
+        else next.delete(payload.from);
+        return next;
+      });
+    });
 
-  const setupSignaling = () => {
-    const channel = supabase.channel(`call-${chatRoomId}`)
-      .on('broadcast', { event: 'offer' }, ({ payload }) => {
-        if (payload.to === user?.id) {
-          handleOffer(payload);
-        }
-      })
-      .on('broadcast', { event: 'answer' }, ({ payload }) => {
-        if (payload.to === user?.id) {
-          handleAnswer(payload);
-        }
-      })
-      .on('broadcast', { event: 'ice-candidate' }, ({ payload }) => {
-        if (payload.to === user?.id) {
-          handleIceCandidate(payload);
-        }
-      })
-      .on('broadcast', { event: 'call-ended' }, ({ payload }) => {
-        if (payload.chatRoomId === chatRoomId) {
-          onEndCall();
-        }
-      })
-      .subscribe();
+    // The last other person hung up on purpose, so there's nothing to wait for
+    channel.on<{ from: string }>('left', (payload) => {
+      const remaining = channel.getMembers().filter(member => member.userId !== userId && member.userId !== payload.from);
+      if (remaining.length === 0 && othersSeen) {
+        cleanup();
+        onEndCall('remote-hangup');
+      }
+    });
 
-    channelRef.current = channel;
-  };
+    channel.onMembersChange((members) => {
+      const ids = members.map(member => member.userId);
+      setMemberIds(ids);
+
+      // Bring participants who just joined up to date
+      const joined = ids.filter(id => id !== userId && !knownMembers.has(id));
+      knownMembers = new Set(ids);
+      if (joined.length > 0 && transportRef.current) {
+        broadcastMediaState();
+        if (screenStreamRef.current) broadcastScreenShare(true);
+        if (recorderRef.current) broadcastRecording(true);
+      }
 
-  const handleOffer = async (payload: any) => {
-    const peerConnection = peerConnectionsRef.current.get(payload.from);
-    if (!peerConnection) return;
-
-    await peerConnection.setRemoteDescription(new RTCSessionDescription(payload.offer));
-    const answer = await peerConnection.createAnswer();
-    await peerConnection.setLocalDescription(answer);
-
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'answer',
-      payload: {
-        answer,
-        from: user?.id,
-        to: payload.from,
-        chatRoomId
+      const others = ids.filter(id => id !== userId);
+      if (others.length > 0) {
+        othersSeen = true;
+        if (aloneTimerRef.current) clearTimeout(aloneTimerRef.current);
+        aloneTimerRef.current = null;
+      } else if (othersSeen && !aloneTimerRef.current) {
+        aloneTimerRef.current = setTimeout(() => {
+          aloneTimerRef.current = null;
+          cleanup();
+          onEndCall('remote-hangup');
+        }, ALONE_GRACE_MS);
       }
     });
-  };
 
-  const handleAnswer = async (payload: any) => {
-    const peerConnection = peerConnectionsRef.current.get(payload.from);
-    if (!peerConnection) return;
+    const callTransport = createCallTransport(transport, {
+      chatRoomId,
+      userId: user!.id,
+      participants,
+      localStream: stream,
+      rtcConfig,
+      refreshRtcConfig: getRtcConfiguration,
+      channel,
+      onRemoteStream: (participantId, remoteStream) => {
+        setRemoteStreams(prev => new Map(prev.set(participantId, remoteStream)));
+        audioMonitorRef.current?.add(participantId, remoteStream);
+        recorderRef.current?.add(participantId, remoteStream, getParticipantName(participantId));
+      },
+      onRemoteLeft: (participantId) => {
+        setRemoteStreams(prev => {
+          const next = new Map(prev);
+          next.delete(participantId);
+          return next;
+        });
+        audioMonitorRef.current?.remove(participantId);
+        recorderRef.current?.remove(participantId);
+        setRecordingBy(prev => {
+          const next = new Set(prev);
+          next.delete(participantId);
+          return next;
+        });
+        setRemoteMediaState(prev => {
+          const next = new Map(prev);
+          next.delete(participantId);
+          return next;
+        });
+        setScreenSharerId(prev => (prev === participantId ? null : prev));
+        setConnectionQuality(prev => {
+          const next = new Map(prev);
+          next.delete(participantId);
+          return next;
+        });
+      },
+      onConnected: () => onConnected?.(),
+    });
 
-    await peerConnection.setRemoteDescription(new RTCSessionDescription(payload.answer));
-  };
+    const member: CallMember = {
+      userId,
+      joinedAt: Date.now(),
+      callId: callId ?? chatRoomId,
+      chatRoomId,
+      callType,
+      transport,
+      from: callerId,
+      participants,
+    };
 
-  const handleIceCandidate = async (payload: any) => {
-    const peerConnection = peerConnectionsRef.current.get(payload.from);
-    if (!peerConnection) return;
+    // Show up in presence first so the people already in the call see us
+    channel.join(member)
+      .then(() => {
+        if (transportRef.current === callTransport) return callTransport.start();
+      })
+      .catch(error => {
+        console.error('Failed to start call transport:', error);
+        cleanup();
+        onEndCall('failed');
+      });
 
-    await peerConnection.addIceCandidate(new RTCIceCandidate(payload.candidate));
+    channelRef.current = channel;
+    transportRef.current = callTransport;
+
+    bitrateRef.current = createBitrateController(handleVideoLevelChange);
+    audioMonitorRef.current = createAudioLevelMonitor(setSpeakerState);
+
+    joinedAtRef.current = Date.now();
+    statsRef.current = createCallStatsCollector(
+      () => transportRef.current?.getParticipantConnections() ?? new Map(),
+      (participantId, sample, quality) => {
+        setConnectionQuality(prev => new Map(prev).set(participantId, { quality, sample }));
+      },
+      (pc, sample) => bitrateRef.current?.handleSample(pc, sample)
+    );
+    statsRef.current.start();
   };
 
-  const startCall = async () => {
-    for (const [participantId, peerConnection] of peerConnectionsRef.current) {
-      const offer = await peerConnection.createOffer();
-      await peerConnection.setLocalDescription(offer);
-
-      channelRef.current?.send({
-        type: 'broadcast',
-        event: 'offer',
-        payload: {
-          offer,
-          from: user?.id,
-          to: participantId,
-          chatRoomId
-        }
+  // Entering or leaving audio-only: tell the people on that connection so
+  // they show a placeholder instead of a frozen frame
+  const handleVideoLevelChange = (pc: RTCPeerConnection, level: VideoQualityLevel, previous: VideoQualityLevel) => {
+    if (level !== 'audio-only' && previous !== 'audio-only') return;
+    if (!pc.getSenders().some(sender => sender.track?.kind === 'video')) return;
+
+    const paused = level === 'audio-only';
+    const recipients = Array.from(transportRef.current?.getParticipantConnections() ?? [])
+      .filter(([, connection]) => connection === pc)
+      .map(([participantId]) => participantId);
+
+    channelRef.current?.send('video-paused', {
+      from: user?.id,
+      to: recipients,
+      chatRoomId,
+      paused
+    });
+
+    if (paused) {
+      toast({
+        title: "Weak connection",
+        description: "Your video is paused to keep the call going",
       });
     }
   };
@@ -203,6 +423,7 @@ export const WebRTCCall: React.FC<WebRTCCallProps> = ({
       if (audioTrack) {
         audioTrack.enabled = !audioTrack.enabled;
         setIsMuted(!audioTrack.enabled);
+        broadcastMediaState();
       }
     }
   };
@@ -213,98 +434,405 @@ export const WebRTCCall: React.FC<WebRTCCallProps> = ({
       if (videoTrack) {
         videoTrack.enabled = !videoTrack.enabled;
         setIsVideoOff(!videoTrack.enabled);
+        broadcastMediaState();
       }
     }
   };
 
-  const endCall = () => {
-    // Notify other participants
-    channelRef.current?.send({
-      type: 'broadcast',
-      event: 'call-ended',
-      payload: {
-        from: user?.id,
-        chatRoomId
+  // Hot-swaps a microphone or camera without renegotiating: the new track goes
+  // into the senders carrying the old one and replaces it in the local stream
+  const switchInputDevice = async (kind: MediaDeviceKind, device: MediaDeviceInfo) => {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+
+    const isAudio = kind === 'audioinput';
+    const oldTrack = isAudio ? stream.getAudioTracks()[0] : stream.getVideoTracks()[0];
+
+    switchingDevicesRef.current.add(kind);
+    try {
+      const deviceStream = await navigator.mediaDevices.getUserMedia(
+        isAudio ? { audio: getDeviceConstraints(device) } : { video: getDeviceConstraints(device) }
+      );
+      const [newTrack] = deviceStream.getTracks();
+
+      // The call ended while the device was opening
+      if (localStreamRef.current !== stream) {
+        newTrack.stop();
+        return;
+      }
+
+      if (oldTrack) newTrack.enabled = oldTrack.enabled;
+
+      const senders = transportRef.current?.getPeerConnections()
+        .flatMap(pc => pc.getSenders())
+        .filter(sender => !!oldTrack && sender.track === oldTrack) ?? [];
+      await Promise.all(senders.map(sender => sender.replaceTrack(newTrack)));
+
+      if (oldTrack) {
+        stream.removeTrack(oldTrack);
+        oldTrack.stop();
+      }
+      stream.addTrack(newTrack);
+      recorderRef.current?.add('local', stream, 'You');
+
+      if (!isAudio && localVideoRef.current && !screenStreamRef.current) {
+        localVideoRef.current.srcObject = stream;
       }
+    } catch (error) {
+      console.error('Error switching device:', error);
+      toast({
+        title: "Error",
+        description: `Could not switch to ${device.label || 'the selected device'}`,
+        variant: "destructive",
+      });
+    } finally {
+      switchingDevicesRef.current.delete(kind);
+    }
+  };
+
+  const broadcastMediaState = () => {
+    const stream = localStreamRef.current;
+    channelRef.current?.send('media-state', {
+      from: user?.id,
+      chatRoomId,
+      audioMuted: !stream?.getAudioTracks()[0]?.enabled,
+      videoOff: !stream?.getVideoTracks()[0]?.enabled
+    });
+  };
+
+  const broadcastScreenShare = (active: boolean) => {
+    channelRef.current?.send('screen-share', {
+      from: user?.id,
+      chatRoomId,
+      active
     });
+  };
 
+  const broadcastRecording = (active: boolean) => {
+    channelRef.current?.send('recording', {
+      from: user?.id,
+      chatRoomId,
+      active
+    });
+  };
+
+  const getParticipantName = (participantId: string) =>
+    profilesRef.current.get(participantId)?.display_name || 'Participant';
+
+  // Recording is opt-in and everyone in the call sees the indicator
+  const startRecording = (includeVideo: boolean) => {
+    setShowRecordOptions(false);
+    const stream = localStreamRef.current;
+    if (!stream || recorderRef.current) return;
+
+    try {
+      const recorder = createCallRecorder({ includeVideo });
+      recorder.add('local', stream, 'You');
+      remoteStreams.forEach((remoteStream, participantId) => {
+        recorder.add(participantId, remoteStream, getParticipantName(participantId));
+      });
+      recorder.start();
+
+      recorderRef.current = recorder;
+      setIsRecording(true);
+      broadcastRecording(true);
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      toast({
+        title: "Error",
+        description: "Could not start recording",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Also called when the call ends; the upload outlives the call screen
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder || !user) return;
+
+    recorderRef.current = null;
+    setIsRecording(false);
+    broadcastRecording(false);
+
+    try {
+      const recording = await recorder.stop();
+      toast({
+        title: "Saving recording",
+        description: "The recording will be posted to the chat",
+      });
+      await shareCallRecording(recording, chatRoomId, user.id);
+      toast({
+        title: "Recording saved",
+        description: "The recording was posted to the chat",
+      });
+    } catch (error) {
+      console.error('Error saving recording:', error);
+      toast({
+        title: "Error",
+        description: "Could not save the recording",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleRecording = () => {
+    if (recorderRef.current) {
+      stopRecording();
+    } else if (callType === 'video') {
+      setShowRecordOptions(true);
+    } else {
+      startRecording(false);
+    }
+  };
+
+  const stopScreenShare = async () => {
+    const screen = screenStreamRef.current;
+    if (!screen) return;
+
+    screenStreamRef.current = null;
+    setScreenStream(null);
+    screen.getTracks().forEach(track => track.stop());
+    if (localVideoRef.current) {
+      localVideoRef.current.srcObject = localStreamRef.current;
+    }
+
+    try {
+      await transportRef.current?.setScreenShare(null);
+      bitrateRef.current?.reapply();
+    } catch (error) {
+      console.error('Error restoring camera after screen share:', error);
+    }
+    broadcastScreenShare(false);
+  };
+
+  const startScreenShare = async () => {
+    try {
+      const screen = await captureScreen();
+      if (!screen) return;
+
+      if (!activeRef.current || !transportRef.current) {
+        screen.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      // The browser's own "Stop sharing" button ends the capture track
+      screen.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (screenStreamRef.current === screen) stopScreenShare();
+      });
+
+      screenStreamRef.current = screen;
+      setScreenStream(screen);
+      if (localVideoRef.current) {
+        localVideoRef.current.srcObject = screen;
+      }
+
+      await transportRef.current.setScreenShare(screen);
+      bitrateRef.current?.reapply();
+      broadcastScreenShare(true);
+    } catch (error) {
+      console.error('Error sharing screen:', error);
+      toast({
+        title: "Error",
+        description: "Could not share your screen",
+        variant: "destructive",
+      });
+      stopScreenShare();
+    }
+  };
+
+  const toggleScreenShare = () => {
+    if (screenStreamRef.current) {
+      stopScreenShare();
+    } else {
+      startScreenShare();
+    }
+  };
+
+  // Leaving only takes us out of the call; everyone else carries on
+  const endCall = () => {
     cleanup();
-    onEndCall();
+    onEndCall('hangup');
   };
 
   const cleanup = () => {
-    localStream?.getTracks().forEach(track => track.stop());
-    peerConnectionsRef.current.forEach(pc => pc.close());
-    peerConnectionsRef.current.clear();
-    channelRef.current?.unsubscribe();
+    stopRecording();
+
+    // Keep the quality summary for debugging bad calls later
+    if (statsRef.current) {
+      statsRef.current.stop();
+      if (callId && user) {
+        saveCallQualityReport({
+          callId,
+          chatRoomId,
+          userId: user.id,
+          transport,
+          startedAt: joinedAtRef.current,
+          endedAt: Date.now(),
+          summary: statsRef.current.summarize(),
+        });
+      }
+      statsRef.current = null;
+    }
+    bitrateRef.current?.dispose();
+    bitrateRef.current = null;
+    audioMonitorRef.current?.dispose();
+    audioMonitorRef.current = null;
+
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    localStreamRef.current = null;
+    screenStreamRef.current?.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    transportRef.current?.close();
+    transportRef.current = null;
+    if (aloneTimerRef.current) clearTimeout(aloneTimerRef.current);
+    aloneTimerRef.current = null;
+    if (channelRef.current) {
+      // Tell the others right away instead of waiting for presence to time out
+      channelRef.current.send('left', { from: user?.id, chatRoomId });
+      channelRef.current.release();
+      channelRef.current = null;
+    }
+    setMemberIds([]);
+    setRecordingBy(new Set());
     setLocalStream(null);
     setRemoteStreams(new Map());
+    setScreenStream(null);
+    setScreenSharerId(null);
+    setConnectionQuality(new Map());
+    setPausedVideoFrom(new Set());
+    setRemoteMediaState(new Map());
+    setSpeakerState({ activeSpeakerId: null, speaking: new Set() });
   };
 
-  useEffect(() => {
-    if (!isIncoming && isConnected) {
-      startCall();
-    }
-  }, [isConnected, isIncoming]);
+  const remoteEntries = Array.from(remoteStreams.entries());
+  const otherProfiles = callParticipantIds
+    .filter(id => id !== user?.id)
+    .map(id => profiles.get(id))
+    .filter((profile): profile is ParticipantProfile => !!profile);
+
+  // A shared screen always takes the main tile; otherwise, in speaker layout,
+  // whoever is talking does
+  const mainParticipantId = screenSharerId && remoteStreams.has(screenSharerId)
+    ? screenSharerId
+    : layout === 'speaker' && remoteEntries.length > 0
+      ? (speakerState.activeSpeakerId && remoteStreams.has(speakerState.activeSpeakerId)
+        ? speakerState.activeSpeakerId
+        : remoteEntries[0][0])
+      : null;
+
+  const renderTile = (participantId: string, stream: MediaStream, className: string, compact = false) => {
+    const profile = profiles.get(participantId);
+    const mediaState = remoteMediaState.get(participantId);
+    const isSharing = participantId === screenSharerId;
+
+    return (
+      <CallParticipantTile
+        key={participantId}
+        name={profile?.display_name || 'Participant'}
+        avatarUrl={profile?.avatar_url}
+        stream={stream}
+        showVideo={isSharing || (callType === 'video' && !mediaState?.videoOff)}
+        isSpeaking={speakerState.speaking.has(participantId)}
+        isMuted={mediaState?.audioMuted}
+        videoPaused={pausedVideoFrom.has(participantId)}
+        fit={isSharing ? 'contain' : 'cover'}
+        quality={connectionQuality.get(participantId)}
+        audioOutputId={audioOutputId}
+        compact={compact}
+        className={className}
+      />
+    );
+  };
 
   return (
     <div className="fixed inset-0 bg-background z-50 flex flex-col">
       {/* Call header */}
-      <div className="p-4 bg-card border-b">
-        <h2 className="text-lg font-semibold text-center">
-          {callType === 'video' ? 'Video Call' : 'Voice Call'}
+      <div className="relative p-4 bg-card border-b">
+        <h2 className="text-lg font-semibold text-center truncate px-12">
+          {otherProfiles.length > 0
+            ? otherProfiles.map(profile => profile.display_name).join(', ')
+            : callType === 'video' ? 'Video Call' : 'Voice Call'}
         </h2>
         <p className="text-sm text-muted-foreground text-center">
-          {participants.length} participants
+          {phase === 'active'
+            ? `${callType === 'video' ? 'Video' : 'Voice'} call · ${participants.length} participants`
+            : describeCallPhase(phase, isIncoming ? 'incoming' : 'outgoing')}
         </p>
-      </div>
-
-      {/* Video container */}
-      <div className="flex-1 relative bg-background">
-        {callType === 'video' && (
-          <>
-            {/* Remote videos */}
-            <div className="grid grid-cols-2 gap-2 h-full p-4">
-              {Array.from(remoteStreams.entries()).map(([participantId, stream]) => (
-                <div key={participantId} className="bg-muted rounded-lg overflow-hidden">
-                  <video
-                    ref={(el) => {
-                      if (el) {
-                        remoteVideosRef.current.set(participantId, el);
-                        el.srcObject = stream;
-                      }
-                    }}
-                    autoPlay
-                    playsInline
-                    className="w-full h-full object-cover"
-                  />
-                </div>
-              ))}
-            </div>
-
-            {/* Local video (picture-in-picture) */}
-            <div className="absolute top-4 right-4 w-32 h-24 bg-muted rounded-lg overflow-hidden border-2 border-primary">
-              <video
-                ref={localVideoRef}
-                autoPlay
-                playsInline
-                muted
-                className="w-full h-full object-cover"
-              />
-            </div>
-          </>
+        {(isRecording || recordingBy.size > 0) && (
+          <div
+            className="absolute left-4 top-1/2 -translate-y-1/2 flex items-center gap-1 rounded-full bg-destructive px-2 py-0.5 text-xs font-medium text-destructive-foreground"
+            title={isRecording
+              ? 'You are recording this call'
+              : `${Array.from(recordingBy).map(getParticipantName).join(', ')} is recording this call`}
+          >
+            <span className="w-2 h-2 rounded-full bg-destructive-foreground animate-pulse" />
+            REC
+          </div>
+        )}
+        {remoteEntries.length > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLayout(layout === 'speaker' ? 'gallery' : 'speaker')}
+            className="absolute right-4 top-1/2 -translate-y-1/2"
+            title={layout === 'speaker' ? 'Gallery view' : 'Speaker view'}
+          >
+            {layout === 'speaker' ? <LayoutGrid className="w-5 h-5" /> : <SquareUser className="w-5 h-5" />}
+          </Button>
         )}
+      </div>
 
-        {callType === 'voice' && (
+      {/* Participants */}
+      <div className="flex-1 relative bg-background overflow-hidden">
+        {remoteEntries.length === 0 ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center">
-              <div className="w-32 h-32 bg-primary rounded-full flex items-center justify-center mb-4 mx-auto">
-                <Phone className="w-16 h-16 text-primary-foreground" />
+              <div className="flex justify-center -space-x-4 mb-4">
+                {otherProfiles.slice(0, 3).map(profile => (
+                  <Avatar key={profile.user_id} className="w-32 h-32 border-4 border-background">
+                    {profile.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.display_name} />}
+                    <AvatarFallback className="text-4xl">
+                      {profile.display_name[0]?.toUpperCase() || 'U'}
+                    </AvatarFallback>
+                  </Avatar>
+                ))}
               </div>
-              <p className="text-lg font-semibold">Voice Call</p>
-              <p className="text-muted-foreground">Connected to {participants.length} participants</p>
+              <p className="text-muted-foreground">
+                {phase === 'active'
+                  ? 'Waiting for others to join…'
+                  : describeCallPhase(phase, isIncoming ? 'incoming' : 'outgoing')}
+              </p>
             </div>
           </div>
+        ) : mainParticipantId ? (
+          <div className="flex flex-col gap-2 h-full p-4">
+            {renderTile(mainParticipantId, remoteStreams.get(mainParticipantId)!, 'flex-1 min-h-0')}
+            {remoteEntries.length > 1 && (
+              <div className="flex gap-2 h-24 shrink-0 overflow-x-auto">
+                {remoteEntries
+                  .filter(([participantId]) => participantId !== mainParticipantId)
+                  .map(([participantId, stream]) => renderTile(participantId, stream, 'w-32 h-full shrink-0', true))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className={cn('grid auto-rows-fr gap-2 h-full p-4', galleryColumns(remoteEntries.length))}>
+            {remoteEntries.map(([participantId, stream]) => renderTile(participantId, stream, 'min-h-0'))}
+          </div>
+        )}
+
+        {/* Local video (picture-in-picture) */}
+        {callType === 'video' && (
+          <div className="absolute top-4 right-4 w-32 h-24 bg-muted rounded-lg overflow-hidden border-2 border-primary">
+            <video
+              ref={localVideoRef}
+              autoPlay
+              playsInline
+              muted
+              className="w-full h-full object-cover"
+            />
+          </div>
         )}
       </div>
 
@@ -331,6 +859,39 @@ export const WebRTCCall: React.FC<WebRTCCallProps> = ({
             </Button>
           )}
 
+          {/* Hidden where getDisplayMedia isn't available, e.g. the Android app */}
+          {isScreenShareSupported() && (
+            <Button
+              variant={screenStream ? "default" : "secondary"}
+              size="lg"
+              onClick={toggleScreenShare}
+              className="rounded-full w-14 h-14"
+            >
+              {screenStream ? <ScreenShareOff className="w-6 h-6" /> : <ScreenShare className="w-6 h-6" />}
+            </Button>
+          )}
+
+          {isCallRecordingSupported() && (
+            <Button
+              variant={isRecording ? "destructive" : "secondary"}
+              size="lg"
+              onClick={toggleRecording}
+              className="rounded-full w-14 h-14"
+              title={isRecording ? 'Stop recording' : 'Record call'}
+            >
+              {isRecording ? <CircleStop className="w-6 h-6" /> : <CircleDot className="w-6 h-6" />}
+            </Button>
+          )}
+
+          <Button
+            variant="secondary"
+            size="lg"
+            onClick={() => setShowDeviceSettings(true)}
+            className="rounded-full w-14 h-14"
+          >
+            <Settings className="w-6 h-6" />
+          </Button>
+
           <Button
             variant="destructive"
             size="lg"
@@ -341,6 +902,40 @@ export const WebRTCCall: React.FC<WebRTCCallProps> = ({
           </Button>
         </div>
       </div>
+
+      <Dialog open={showDeviceSettings} onOpenChange={setShowDeviceSettings}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Audio & video</DialogTitle>
+          </DialogHeader>
+          <DeviceSettings
+            devices={devices}
+            preferences={preferences}
+            onSelect={selectDevice}
+            onRequestAccess={requestAccess}
+            showCamera={callType === 'video'}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRecordOptions} onOpenChange={setShowRecordOptions}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record call</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Everyone in the call will see that you're recording. When you stop, the recording is posted to the chat.
+          </p>
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <Button variant="secondary" onClick={() => startRecording(false)}>
+              Audio only
+            </Button>
+            <Button onClick={() => startRecording(true)}>
+              Audio and video
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import {
+  cancelUpload,
+  enqueueUpload,
+  getUploads,
+  onUploadFailed,
+  pauseUpload,
+  restoreUploads,
+  resumeQueuedUploads,
+  resumeUpload,
+  subscribeToUploads,
+} from '@/utils/uploadQueue';
+
+// A room's attachment uploads. They run in the shared upload queue, so they
+// carry on when the room is closed and reappear when it's opened again.
+export function useAttachmentUpload(chatRoomId: string, userId: string) {
+  const [uploads, setUploads] = useState(() => getUploads().filter(upload => upload.chatRoomId === chatRoomId));
+
+  useEffect(() => {
+    const sync = () => setUploads(getUploads().filter(upload => upload.chatRoomId === chatRoomId));
+    sync();
+    return subscribeToUploads(sync);
+  }, [chatRoomId]);
+
+  const sendAttachment = (file: File, caption?: string) =>
+    enqueueUpload({ file, chatRoomId, userId, caption });
+
+  return { uploads, sendAttachment, cancelUpload, pauseUpload, resumeUpload };
+}
+
+// Drives the upload queue for the signed in user: restores uploads left from
+// the last session and restarts queued ones when the connection comes back
+export function useUploadQueue(userId: string | undefined) {
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    if (userId) restoreUploads(userId);
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId && isOnline) resumeQueuedUploads();
+  }, [userId, isOnline]);
+
+  useEffect(() => onUploadFailed((upload) => {
+    toast({
+      title: "Upload failed",
+      description: `Could not send ${upload.file.name}`,
+      variant: "destructive",
+    });
+  }), []);
+}
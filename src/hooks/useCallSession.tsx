@@ -0,0 +1,264 @@
+import { createContext, useContext, useEffect, useReducer, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import {
+  callSessionReducer,
+  describeCallEndReason,
+  isCallInProgress,
+  RING_TIMEOUT_MS,
+  CallEndReason,
+  CallSessionState,
+  CallType,
+} from '@/utils/callSession';
+import { createCallRecord, finishCallRecord, recordCallMessage } from '@/utils/callHistory';
+import {
+  listenForCallSignals,
+  sendCallAccepted,
+  sendCallCancelled,
+  sendCallDeclined,
+  sendCallInvite,
+} from '@/utils/callSignaling';
+import { pickTransportMode } from '@/utils/callTransport';
+import type { CallMember } from '@/utils/callChannel';
+
+interface CallSessionContextType {
+  session: CallSessionState;
+  startCall: (chatRoomId: string, callType: CallType, participants: string[]) => Promise<void>;
+  acceptCall: () => Promise<void>;
+  declineCall: () => Promise<void>;
+  joinCall: (member: CallMember) => Promise<void>;
+  markConnected: () => void;
+  endCall: (reason?: CallEndReason) => void;
+}
+
+// Everyone the caller rang, i.e. all participants except the caller
+const getRecipients = (session: NonNullable<CallSessionState>) =>
+  session.participants.filter(id => id !== session.from);
+
+const CallSessionContext = createContext<CallSessionContextType | undefined>(undefined);
+
+// End reasons that only the affected user needs to be told about
+const SILENT_END_REASONS: CallEndReason[] = ['hangup', 'remote-hangup', 'declined'];
+
+export function CallSessionProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [session, dispatch] = useReducer(callSessionReducer, null);
+  const sessionRef = useRef<CallSessionState>(null);
+  const declinedByRef = useRef<Set<string>>(new Set());
+  // Row in `calls` for the outgoing call in progress
+  const callIdRef = useRef<Promise<string | null> | null>(null);
+
+  sessionRef.current = session;
+
+  // Signals from the shared call-invites channel
+  useEffect(() => {
+    if (!user) return;
+
+    let unsubscribe: (() => void) | undefined;
+    let disposed = false;
+
+    listenForCallSignals((event, payload) => {
+      if (payload.to !== user.id) return;
+      const current = sessionRef.current;
+
+      switch (event) {
+        case 'incoming-call':
+          if (isCallInProgress(current) && current.chatRoomId !== payload.chatRoomId) {
+            sendCallDeclined(payload.from, payload.chatRoomId, user.id, 'busy');
+            return;
+          }
+          dispatch({
+            type: 'INCOMING',
+            // Older clients don't send a call id
+            callId: payload.callId || crypto.randomUUID(),
+            chatRoomId: payload.chatRoomId,
+            callType: payload.callType,
+            from: payload.from,
+            participants: payload.participants || [],
+            transport: payload.transport || 'mesh',
+          });
+          break;
+
+        case 'call-cancelled':
+          if (current?.direction === 'incoming' && current.chatRoomId === payload.chatRoomId && current.from === payload.from) {
+            dispatch({ type: 'END', reason: payload.reason === 'timeout' ? 'missed' : 'cancelled' });
+          }
+          break;
+
+        case 'call-accepted':
+          if (current?.direction === 'outgoing' && current.chatRoomId === payload.chatRoomId) {
+            dispatch({ type: 'ACCEPT' });
+          }
+          break;
+
+        case 'call-declined':
+          if (current?.direction === 'outgoing' && current.chatRoomId === payload.chatRoomId &&
+              (current.phase === 'dialing' || current.phase === 'ringing')) {
+            declinedByRef.current.add(payload.from);
+            // Only give up once everyone we rang has declined
+            if (getRecipients(current).every(id => declinedByRef.current.has(id))) {
+              dispatch({ type: 'END', reason: payload.reason === 'busy' ? 'busy' : 'declined' });
+            }
+          }
+          break;
+      }
+    }).then(off => {
+      if (disposed) off();
+      else unsubscribe = off;
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe?.();
+    };
+  }, [user]);
+
+  // Ring timeout for both directions
+  useEffect(() => {
+    if (!session || (session.phase !== 'dialing' && session.phase !== 'ringing')) return;
+
+    const timer = setTimeout(() => {
+      const current = sessionRef.current;
+      if (!current || (current.phase !== 'dialing' && current.phase !== 'ringing')) return;
+
+      if (current.direction === 'outgoing') {
+        sendCallCancelled(getRecipients(current), current.chatRoomId, current.from, 'timeout');
+        dispatch({ type: 'END', reason: 'timeout' });
+      } else {
+        dispatch({ type: 'END', reason: 'missed' });
+      }
+    }, Math.max(0, session.startedAt + RING_TIMEOUT_MS - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [session?.phase, session?.startedAt]);
+
+  // Record the call, surface why it ended, then go back to idle
+  useEffect(() => {
+    if (session?.phase !== 'ended') return;
+
+    // The caller owns the history row and the call message in the room
+    if (session.direction === 'outgoing' && callIdRef.current) {
+      const ended = session;
+      callIdRef.current.then(callId => {
+        if (callId) finishCallRecord(callId, ended);
+      });
+      callIdRef.current = null;
+      recordCallMessage(ended);
+    }
+
+    if (!SILENT_END_REASONS.includes(session.endReason)) {
+      toast({
+        title: describeCallEndReason(session.endReason),
+        variant: session.endReason === 'failed' ? 'destructive' : 'default',
+      });
+    }
+    declinedByRef.current.clear();
+    dispatch({ type: 'RESET' });
+  }, [session]);
+
+  const startCall = async (chatRoomId: string, callType: CallType, participants: string[]) => {
+    if (!user || isCallInProgress(sessionRef.current)) return;
+
+    // Everyone in the call has to agree on the transport, so the caller picks it
+    const transport = pickTransportMode(participants.length);
+    const callId = crypto.randomUUID();
+
+    declinedByRef.current.clear();
+    dispatch({ type: 'DIAL', callId, chatRoomId, callType, from: user.id, participants, transport });
+    callIdRef.current = createCallRecord({
+      callId,
+      phase: 'dialing',
+      direction: 'outgoing',
+      chatRoomId,
+      callType,
+      from: user.id,
+      participants,
+      transport,
+      startedAt: Date.now(),
+    });
+    await sendCallInvite(participants.filter(id => id !== user.id), {
+      callId,
+      chatRoomId,
+      callType,
+      from: user.id,
+      participants,
+      transport,
+    });
+    dispatch({ type: 'INVITE_SENT' });
+  };
+
+  const acceptCall = async () => {
+    const current = sessionRef.current;
+    if (!user || current?.direction !== 'incoming' || current.phase !== 'ringing') return;
+
+    dispatch({ type: 'ACCEPT' });
+    await sendCallAccepted(current.from, current.chatRoomId, user.id);
+  };
+
+  const declineCall = async () => {
+    const current = sessionRef.current;
+    if (!user || current?.direction !== 'incoming' || current.phase !== 'ringing') return;
+
+    dispatch({ type: 'END', reason: 'declined' });
+    await sendCallDeclined(current.from, current.chatRoomId, user.id, 'declined');
+  };
+
+  // Join a call already in progress, described by someone who's in it
+  const joinCall = async (member: CallMember) => {
+    const current = sessionRef.current;
+    if (!user) return;
+
+    // Still ringing for this very call: joining is just answering
+    if (current?.direction === 'incoming' && current.phase === 'ringing' && current.chatRoomId === member.chatRoomId) {
+      await acceptCall();
+      return;
+    }
+    if (isCallInProgress(current)) return;
+
+    dispatch({
+      type: 'JOIN',
+      callId: member.callId,
+      chatRoomId: member.chatRoomId,
+      callType: member.callType,
+      from: member.from,
+      participants: member.participants.includes(user.id) ? member.participants : [...member.participants, user.id],
+      transport: member.transport,
+    });
+  };
+
+  const markConnected = () => dispatch({ type: 'CONNECTED' });
+
+  const endCall = (reason: CallEndReason = 'hangup') => {
+    const current = sessionRef.current;
+    if (!current) return;
+
+    // Hanging up while still ringing cancels the invite for everyone
+    if (reason === 'hangup' && current.direction === 'outgoing' &&
+        (current.phase === 'dialing' || current.phase === 'ringing')) {
+      sendCallCancelled(getRecipients(current), current.chatRoomId, current.from, 'cancelled');
+    }
+    dispatch({ type: 'END', reason });
+  };
+
+  return (
+    <CallSessionContext.Provider value={{
+      session,
+      startCall,
+      acceptCall,
+      declineCall,
+      joinCall,
+      markConnected,
+      endCall,
+    }}>
+      {children}
+    </CallSessionContext.Provider>
+  );
+}
+
+export function useCallSession() {
+  const context = useContext(CallSessionContext);
+  if (context === undefined) {
+    throw new Error('useCallSession must be used within a CallSessionProvider');
+  }
+  return context;
+}
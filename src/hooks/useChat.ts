@@ -0,0 +1,818 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { cache, CACHE_KEYS } from '@/utils/cache';
+import { offlineQueue } from '@/utils/offlineQueue';
+import { removeChatFiles } from '@/utils/chatFiles';
+import { ChatRoomData, fetchChatRooms, openDirectChat, toLastMessage } from '@/utils/chatRooms';
+import { markMessagesDelivered } from '@/utils/receipts';
+import {
+  addReaction,
+  ChatMessage,
+  deleteMessageForEveryone,
+  deleteMessageForMe,
+  editMessage,
+  fetchMessage,
+  fetchMessageRevisions,
+  fetchMessagesAfter,
+  fetchMessagesBefore,
+  fetchThread,
+  insertTextMessage,
+  localMessage,
+  MESSAGE_PAGE_SIZE,
+  MessageReaction,
+  messageFilePaths,
+  OutgoingMessage,
+  queuedMessage,
+  queuedMessages,
+  removeReaction,
+  toQuote,
+  withSenders,
+} from '@/utils/messages';
+
+// The chat data both layouts share, kept in the react-query cache: the room
+// list and each open room's messages. Realtime events and our own sends are
+// written straight into the cache, so every screen showing a room or the
+// list sees them at once.
+
+export const chatKeys = {
+  rooms: (userId: string) => ['chat', 'rooms', userId] as const,
+  messages: (chatRoomId: string) => ['chat', 'messages', chatRoomId] as const,
+  revisions: (messageId: string) => ['chat', 'revisions', messageId] as const,
+  thread: (rootId: string) => ['chat', 'thread', rootId] as const,
+  receipts: (chatRoomId: string) => ['chat', 'receipts', chatRoomId] as const,
+  readReceipts: (userId: string) => ['chat', 'readReceipts', userId] as const,
+  unread: (userId: string) => ['chat', 'unread', userId] as const,
+};
+
+// A window onto a room's history: the newest page to start with, growing as
+// older (or, after a jump, newer) pages are loaded. New messages arrive over
+// realtime while the window reaches the newest message.
+export interface MessageWindow {
+  messages: ChatMessage[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+export interface MessageThread {
+  root: ChatMessage | null;
+  replies: ChatMessage[];
+}
+
+// Messages either side of the target when jumping into the history
+const JUMP_CONTEXT = Math.floor(MESSAGE_PAGE_SIZE / 2);
+
+// Our unsent messages stay at the end of whatever the server gave us
+const withLocal = (messages: ChatMessage[], local: ChatMessage[]) => {
+  const ids = new Set(messages.map(message => message.id));
+  const pending: ChatMessage[] = [];
+  local.forEach((message) => {
+    if (!ids.has(message.id)) {
+      ids.add(message.id);
+      pending.push(message);
+    }
+  });
+  return [...messages, ...pending];
+};
+
+// Adds a message that reached the server, or replaces our optimistic copy of it
+const upsertMessage = (messages: ChatMessage[], message: ChatMessage) => {
+  if (messages.some(existing => existing.id === message.id)) {
+    return messages.map(existing => (existing.id === message.id ? message : existing));
+  }
+  const firstLocal = messages.findIndex(existing => existing.status);
+  if (firstLocal < 0) return [...messages, message];
+  return [...messages.slice(0, firstLocal), message, ...messages.slice(firstLocal)];
+};
+
+// Puts a message back where it was, after an optimistic change failed
+const restoreMessage = (messages: ChatMessage[], message: ChatMessage) => {
+  if (messages.some(existing => existing.id === message.id)) {
+    return messages.map(existing => (existing.id === message.id ? message : existing));
+  }
+  const index = messages.findIndex(existing => existing.status || existing.created_at > message.created_at);
+  if (index < 0) return [...messages, message];
+  return [...messages.slice(0, index), message, ...messages.slice(index)];
+};
+
+const updateWindow = (
+  queryClient: QueryClient,
+  chatRoomId: string,
+  update: (current: MessageWindow) => MessageWindow
+) => queryClient.setQueryData<MessageWindow>(chatKeys.messages(chatRoomId), current => current && update(current));
+
+const updateThread = (
+  queryClient: QueryClient,
+  rootId: string,
+  update: (current: MessageThread) => MessageThread
+) => queryClient.setQueryData<MessageThread>(chatKeys.thread(rootId), current => current && update(current));
+
+// Our own message shows in the room and, if it's a reply, in its thread
+const updateOwnMessage = (
+  queryClient: QueryClient,
+  message: OutgoingMessage,
+  update: (messages: ChatMessage[]) => ChatMessage[]
+) => {
+  updateWindow(queryClient, message.chat_room_id, current => ({ ...current, messages: update(current.messages) }));
+  if (message.thread_root_id) {
+    updateThread(queryClient, message.thread_root_id, current => ({ ...current, replies: update(current.replies) }));
+  }
+};
+
+// Applies an edit, deletion or new reply count from a realtime UPDATE, to the
+// message itself and to replies quoting it
+const applyUpdate = (messages: ChatMessage[], row: Tables<'messages'>) => messages.map((existing) => {
+  if (existing.id === row.id) {
+    return {
+      ...existing,
+      content: row.content,
+      metadata: row.metadata,
+      edited_at: row.edited_at,
+      deleted_at: row.deleted_at,
+      reply_count: row.reply_count,
+    };
+  }
+  if (existing.reply_to?.id === row.id) {
+    return { ...existing, reply_to: { ...existing.reply_to, content: row.content, deleted_at: row.deleted_at } };
+  }
+  return existing;
+});
+
+// Adds a reaction to its message, once however many times it arrives
+const addToMessage = (messages: ChatMessage[], messageId: string, reaction: MessageReaction) => messages.map(existing => (
+  existing.id === messageId && !existing.reactions?.some(({ id }) => id === reaction.id)
+    ? { ...existing, reactions: [...(existing.reactions ?? []), reaction] }
+    : existing
+));
+
+const removeFromMessages = (messages: ChatMessage[], reactionId: string) => messages.map(existing => (
+  existing.reactions?.some(({ id }) => id === reactionId)
+    ? { ...existing, reactions: existing.reactions.filter(({ id }) => id !== reactionId) }
+    : existing
+));
+
+const reportLoadError = (error: unknown) => {
+  console.error('Error fetching messages:', error);
+  // Don't show error toast if offline; the cached page is still shown
+  if (navigator.onLine) {
+    toast({
+      title: "Error",
+      description: "Failed to load messages",
+      variant: "destructive",
+    });
+  }
+};
+
+export function useRoomMessages(chatRoomId: string) {
+  const queryClient = useQueryClient();
+  const queryKey = chatKeys.messages(chatRoomId);
+  const cacheKey = `${CACHE_KEYS.MESSAGES}_${chatRoomId}`;
+  // Bumped whenever the window is replaced, so late pages for the old one are
+  // dropped
+  const generationRef = useRef(0);
+  // Scroll events can ask for the same page several times before a render
+  const loadingOlderRef = useRef(false);
+  const loadingNewerRef = useRef(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<MessageWindow> => {
+      const generation = ++generationRef.current;
+      const page = await fetchMessagesBefore(chatRoomId);
+      const current = queryClient.getQueryData<MessageWindow>(queryKey);
+      if (generation !== generationRef.current && current) return current;
+      const local = (current?.messages ?? []).filter(message => message.status);
+      return {
+        messages: withLocal(page, [...local, ...queuedMessages(chatRoomId)]),
+        hasOlder: page.length === MESSAGE_PAGE_SIZE,
+        hasNewer: false,
+      };
+    },
+    // Shown straight away while the newest page loads, and while offline
+    initialData: () => {
+      const cached = cache.get<ChatMessage[]>(cacheKey);
+      return cached
+        ? { messages: withLocal(cached, queuedMessages(chatRoomId)), hasOlder: false, hasNewer: false }
+        : undefined;
+    },
+    // Realtime keeps the window current, and refetching would drop the pages
+    // loaded since. Opening the room, and reconnecting while at the newest
+    // messages, start again from the newest page.
+    staleTime: Infinity,
+    refetchOnMount: 'always',
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: (query) => ((query.state.data as MessageWindow | undefined)?.hasNewer ? false : 'always'),
+  });
+
+  const history = query.data;
+  const messages = history?.messages ?? [];
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  useEffect(() => {
+    if (query.error) reportLoadError(query.error);
+  }, [query.error]);
+
+  // Only the newest page is cached, for showing something straight away next time
+  useEffect(() => {
+    if (history && !history.hasNewer) {
+      cache.set(cacheKey, history.messages.filter(message => !message.status).slice(-MESSAGE_PAGE_SIZE), 30);
+    }
+  }, [cacheKey, history]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`messages:${chatRoomId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_room_id=eq.${chatRoomId}`
+        },
+        async (payload) => {
+          try {
+            const [message] = await withSenders([payload.new as Tables<'messages'>]);
+            // Not showing the newest messages; this one loads on the way down
+            updateWindow(queryClient, chatRoomId, current => (
+              current.hasNewer ? current : { ...current, messages: upsertMessage(current.messages, message) }
+            ));
+          } catch (error) {
+            console.error('Error receiving message:', error);
+          }
+        }
+      )
+      // Edits, deletions for everyone and reply counts; the sender stays the same
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_room_id=eq.${chatRoomId}`
+        },
+        (payload) => {
+          const row = payload.new as Tables<'messages'>;
+          queryClient.invalidateQueries({ queryKey: chatKeys.revisions(row.id) });
+          updateWindow(queryClient, chatRoomId, current => ({ ...current, messages: applyUpdate(current.messages, row) }));
+        }
+      )
+      // Deletes only carry the id, so they can't be filtered by room
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const { id } = payload.old as Partial<Tables<'messages'>>;
+          updateWindow(queryClient, chatRoomId, current => ({
+            ...current,
+            messages: current.messages.filter(existing => existing.id !== id),
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `chat_room_id=eq.${chatRoomId}`
+        },
+        (payload) => {
+          const { message_id, id, user_id, emoji } = payload.new as Tables<'message_reactions'>;
+          updateWindow(queryClient, chatRoomId, current => ({
+            ...current,
+            messages: addToMessage(current.messages, message_id, { id, user_id, emoji }),
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'message_reactions' },
+        (payload) => {
+          const { id } = payload.old as Partial<Tables<'message_reactions'>>;
+          updateWindow(queryClient, chatRoomId, current => ({
+            ...current,
+            messages: removeFromMessages(current.messages, id),
+          }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [chatRoomId, queryClient]);
+
+  const loadOlder = useCallback(async () => {
+    const oldest = messagesRef.current[0];
+    if (!oldest || oldest.status || loadingOlderRef.current) return;
+    const generation = generationRef.current;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagesBefore(chatRoomId, oldest);
+      if (generation !== generationRef.current) return;
+      updateWindow(queryClient, chatRoomId, current => ({
+        ...current,
+        messages: [...page, ...current.messages],
+        hasOlder: page.length === MESSAGE_PAGE_SIZE,
+      }));
+    } catch (error) {
+      reportLoadError(error);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [chatRoomId, queryClient]);
+
+  const loadNewer = useCallback(async () => {
+    const newest = [...messagesRef.current].reverse().find(message => !message.status);
+    if (!newest || loadingNewerRef.current) return;
+    const generation = generationRef.current;
+    loadingNewerRef.current = true;
+    try {
+      const page = await fetchMessagesAfter(chatRoomId, newest);
+      if (generation !== generationRef.current) return;
+      updateWindow(queryClient, chatRoomId, current => ({
+        ...current,
+        messages: page.reduce(upsertMessage, current.messages),
+        // A short page means we've caught up and realtime takes over
+        hasNewer: page.length === MESSAGE_PAGE_SIZE,
+      }));
+    } catch (error) {
+      reportLoadError(error);
+    } finally {
+      loadingNewerRef.current = false;
+    }
+  }, [chatRoomId, queryClient]);
+
+  // Loads the history around a message (from search results, replies...) if
+  // it isn't already loaded. Resolves to whether the message was found.
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (messagesRef.current.some(message => message.id === messageId)) return true;
+
+    const generation = ++generationRef.current;
+    try {
+      const target = await fetchMessage(chatRoomId, messageId);
+      if (!target) {
+        toast({
+          title: "Message not found",
+          description: "It may have been deleted",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      const [older, newer] = await Promise.all([
+        fetchMessagesBefore(chatRoomId, target, JUMP_CONTEXT),
+        fetchMessagesAfter(chatRoomId, target, JUMP_CONTEXT),
+      ]);
+      if (generation !== generationRef.current) return false;
+      queryClient.setQueryData<MessageWindow>(chatKeys.messages(chatRoomId), current => ({
+        messages: withLocal([...older, target, ...newer], (current?.messages ?? []).filter(message => message.status)),
+        hasOlder: older.length === JUMP_CONTEXT,
+        hasNewer: newer.length === JUMP_CONTEXT,
+      }));
+      return true;
+    } catch (error) {
+      reportLoadError(error);
+      return false;
+    }
+  }, [chatRoomId, queryClient]);
+
+  // Back to the newest page after jumping into the history
+  const jumpToLatest = useCallback(async () => {
+    const current = queryClient.getQueryData<MessageWindow>(chatKeys.messages(chatRoomId));
+    if (current?.hasNewer) await queryClient.refetchQueries({ queryKey: chatKeys.messages(chatRoomId), exact: true });
+  }, [chatRoomId, queryClient]);
+
+  return {
+    messages,
+    loading: !history && query.isFetching,
+    hasOlder: history?.hasOlder ?? false,
+    hasNewer: history?.hasNewer ?? false,
+    loadingOlder,
+    loadOlder,
+    loadNewer,
+    jumpToMessage,
+    jumpToLatest,
+  };
+}
+
+// Sends a text message, or a reply, to the room. It shows at once and, if it
+// can't go out now, waits on the offline queue until useMessageQueue sends it.
+export function useSendMessage(chatRoomId: string, currentUser: User) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    // Offline sends should go to the queue now, not wait paused for the network
+    networkMode: 'always',
+    mutationFn: async (message: OutgoingMessage) => {
+      if (!navigator.onLine) throw new Error('Offline');
+      await insertTextMessage(message);
+    },
+    onMutate: (message) => {
+      updateOwnMessage(queryClient, message, messages => [...messages, localMessage(message, 'sending')]);
+    },
+    onSuccess: (_data, message) => {
+      // Realtime normally delivers the real message first; this only clears
+      // the status if it hasn't
+      updateOwnMessage(queryClient, message, messages => messages.map(existing => (
+        existing.id === message.id && existing.status ? { ...existing, status: undefined } : existing
+      )));
+    },
+    onError: (error, message) => {
+      const offline = !navigator.onLine;
+      if (!offline) console.error('Error sending message:', error);
+      offlineQueue.addToQueue({ type: 'message', payload: message });
+      updateOwnMessage(queryClient, message, messages => messages.map(existing => (
+        existing.id === message.id ? { ...existing, status: 'queued' } : existing
+      )));
+      toast(offline
+        ? { title: "Message queued", description: "Will be sent when back online" }
+        : { title: "Message queued", description: "Will retry when connection improves", variant: "destructive" });
+    },
+  });
+
+  const { mutate } = mutation;
+  return useCallback((content: string, replyTo?: ChatMessage) => {
+    mutate({
+      id: crypto.randomUUID(),
+      chat_room_id: chatRoomId,
+      sender_id: currentUser.id,
+      content,
+      created_at: new Date().toISOString(),
+      ...(replyTo && {
+        reply_to_id: replyTo.id,
+        reply_to: toQuote(replyTo),
+        thread_root_id: replyTo.thread_root_id ?? replyTo.id,
+      }),
+    });
+  }, [chatRoomId, currentUser.id, mutate]);
+}
+
+const describeError = (error: unknown) =>
+  (error as { message?: string } | null)?.message || "Please try again";
+
+// Edits one of our text messages. The change shows at once and is undone if
+// the server refuses it, e.g. because the time to edit has run out.
+export function useEditMessage(chatRoomId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ message, content }: { message: ChatMessage; content: string }) => editMessage(message.id, content),
+    onMutate: ({ message, content }) => {
+      updateWindow(queryClient, chatRoomId, current => ({
+        ...current,
+        messages: current.messages.map(existing => (
+          existing.id === message.id ? { ...existing, content, edited_at: new Date().toISOString() } : existing
+        )),
+      }));
+    },
+    onError: (error, { message }) => {
+      console.error('Error editing message:', error);
+      updateWindow(queryClient, chatRoomId, current => ({ ...current, messages: restoreMessage(current.messages, message) }));
+      toast({
+        title: "Couldn't edit message",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Adds our reaction to a message, or takes it back if we've already reacted
+// with that emoji. Shows at once and is undone if the server refuses it.
+export function useToggleReaction(chatRoomId: string, userId: string) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({ message, added, removed }: { message: ChatMessage; added?: MessageReaction; removed?: MessageReaction }) => (
+      added ? addReaction(added, message.id, chatRoomId) : removeReaction(removed.id)
+    ),
+    onMutate: ({ message, added, removed }) => {
+      updateWindow(queryClient, chatRoomId, current => ({
+        ...current,
+        messages: added
+          ? addToMessage(current.messages, message.id, added)
+          : removeFromMessages(current.messages, removed.id),
+      }));
+    },
+    onError: (error, { message }) => {
+      console.error('Error updating reaction:', error);
+      updateWindow(queryClient, chatRoomId, current => ({
+        ...current,
+        messages: current.messages.map(existing => (
+          existing.id === message.id ? { ...existing, reactions: message.reactions } : existing
+        )),
+      }));
+      toast({
+        title: "Couldn't update reaction",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate } = mutation;
+  return useCallback((message: ChatMessage, emoji: string) => {
+    const removed = message.reactions?.find(reaction => reaction.user_id === userId && reaction.emoji === emoji);
+    mutate(removed ? { message, removed } : { message, added: { id: crypto.randomUUID(), user_id: userId, emoji } });
+  }, [mutate, userId]);
+}
+
+// A thread as shown in the thread panel, kept current over its own realtime
+// subscription while the panel is open
+export function useThread(rootId: string) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: chatKeys.thread(rootId),
+    queryFn: () => fetchThread(rootId),
+    staleTime: Infinity,
+    refetchOnMount: 'always',
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (query.error) reportLoadError(query.error);
+  }, [query.error]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`thread:${rootId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `thread_root_id=eq.${rootId}`
+        },
+        async (payload) => {
+          try {
+            const [message] = await withSenders([payload.new as Tables<'messages'>]);
+            updateThread(queryClient, rootId, current => ({ ...current, replies: upsertMessage(current.replies, message) }));
+          } catch (error) {
+            console.error('Error receiving reply:', error);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `thread_root_id=eq.${rootId}`
+        },
+        (payload) => {
+          const row = payload.new as Tables<'messages'>;
+          updateThread(queryClient, rootId, current => ({ ...current, replies: applyUpdate(current.replies, row) }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `id=eq.${rootId}`
+        },
+        (payload) => {
+          const row = payload.new as Tables<'messages'>;
+          updateThread(queryClient, rootId, current => ({
+            root: current.root && applyUpdate([current.root], row)[0],
+            replies: applyUpdate(current.replies, row),
+          }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [rootId, queryClient]);
+
+  return {
+    root: query.data?.root ?? null,
+    replies: query.data?.replies ?? [],
+    loading: query.isPending,
+  };
+}
+
+// Loaded when `enabled`, i.e. once someone opens the history
+export function useMessageRevisions(messageId: string, enabled: boolean) {
+  return useQuery({
+    queryKey: chatKeys.revisions(messageId),
+    queryFn: () => fetchMessageRevisions(messageId),
+    enabled,
+  });
+}
+
+export function useDeleteMessage(chatRoomId: string, userId: string) {
+  const queryClient = useQueryClient();
+
+  const undo = (message: ChatMessage, error: unknown) => {
+    console.error('Error deleting message:', error);
+    updateWindow(queryClient, chatRoomId, current => ({ ...current, messages: restoreMessage(current.messages, message) }));
+    toast({
+      title: "Couldn't delete message",
+      description: describeError(error),
+      variant: "destructive",
+    });
+  };
+
+  const forMe = useMutation({
+    mutationFn: (message: ChatMessage) => deleteMessageForMe(message.id, userId),
+    onMutate: (message) => {
+      updateWindow(queryClient, chatRoomId, current => ({
+        ...current,
+        messages: current.messages.filter(existing => existing.id !== message.id),
+      }));
+    },
+    onError: (error, message) => undo(message, error),
+    // It may have been the room's last message
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: chatKeys.rooms(userId) }),
+  });
+
+  const forEveryone = useMutation({
+    mutationFn: (message: ChatMessage) => deleteMessageForEveryone(message.id),
+    onMutate: (message) => {
+      updateWindow(queryClient, chatRoomId, current => ({
+        ...current,
+        messages: current.messages.map(existing => (
+          existing.id === message.id
+            ? { ...existing, content: '', metadata: null, deleted_at: new Date().toISOString() }
+            : existing
+        )),
+      }));
+    },
+    onError: (error, message) => undo(message, error),
+    // Nothing points at its files any more
+    onSuccess: (_data, message) => {
+      removeChatFiles(messageFilePaths(message))
+        .catch(error => console.warn('Could not remove files of deleted message', error));
+    },
+  });
+
+  return { deleteForMe: forMe.mutate, deleteForEveryone: forEveryone.mutate };
+}
+
+let sendingQueued = false;
+
+async function sendQueuedMessages(queryClient: QueryClient, userId: string) {
+  if (sendingQueued) return;
+  sendingQueued = true;
+  try {
+    const queued = offlineQueue.getQueue()
+      .filter(action => action.type === 'message' && action.payload.sender_id === userId);
+    for (const action of queued) {
+      const message: OutgoingMessage = action.payload;
+      try {
+        await insertTextMessage(message);
+        offlineQueue.removeFromQueue(action.id);
+        // Realtime brings the real message if the room is open
+        const { id } = queuedMessage(action);
+        updateOwnMessage(queryClient, message, messages => (
+          messages.filter(existing => !(existing.id === id && existing.status === 'queued'))
+        ));
+      } catch (e) {
+        console.error('Failed to sync offline message:', e);
+      }
+    }
+  } finally {
+    sendingQueued = false;
+  }
+}
+
+// Sends the signed in user's queued messages whenever we're online
+export function useMessageQueue(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    if (userId && isOnline) sendQueuedMessages(queryClient, userId);
+  }, [userId, isOnline, queryClient]);
+}
+
+const reportDeliveryError = (error: unknown) => console.error('Error marking messages delivered:', error);
+
+export function useRoomList(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const cacheKey = userId ? cache.userKey(userId, CACHE_KEYS.CHAT_ROOMS) : '';
+
+  const query = useQuery({
+    queryKey: chatKeys.rooms(userId ?? ''),
+    queryFn: async () => {
+      const rooms = await fetchChatRooms(userId!);
+      // Whatever was waiting for us has now reached this device
+      markMessagesDelivered().catch(reportDeliveryError);
+      return rooms;
+    },
+    enabled: !!userId,
+    placeholderData: () => (cacheKey ? cache.get<ChatRoomData[]>(cacheKey) ?? undefined : undefined),
+  });
+
+  useEffect(() => {
+    if (!query.error) return;
+    console.error('Error fetching chat rooms:', query.error);
+    toast({
+      title: "Error",
+      description: "Failed to load chat rooms",
+      variant: "destructive",
+    });
+  }, [query.error]);
+
+  useEffect(() => {
+    // Cache chat rooms for 15 minutes
+    if (query.data && !query.isPlaceholderData) cache.set(cacheKey, query.data, 15);
+  }, [cacheKey, query.data, query.isPlaceholderData]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const roomsKey = chatKeys.rooms(userId);
+
+    // Only messages from our own rooms come through, so each one is the
+    // newest in a room we have, or in one we haven't fetched yet
+    const channel = supabase
+      .channel(`rooms:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as Tables<'messages'>;
+          if (message.sender_id !== userId) markMessagesDelivered(message.chat_room_id).catch(reportDeliveryError);
+          const rooms = queryClient.getQueryData<ChatRoomData[]>(roomsKey);
+          const room = rooms?.find(r => r.id === message.chat_room_id);
+          const sender = room?.participants.find(p => p.user_id === message.sender_id);
+          if (!room || !sender) {
+            queryClient.invalidateQueries({ queryKey: roomsKey });
+            return;
+          }
+          queryClient.setQueryData<ChatRoomData[]>(roomsKey, current => current?.map(r => (
+            r.id === room.id ? { ...r, last_message: toLastMessage(message, sender) } : r
+          )));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as Tables<'messages'>;
+          queryClient.setQueryData<ChatRoomData[]>(roomsKey, current => current?.map(r => (
+            r.last_message?.id === message.id
+              ? { ...r, last_message: toLastMessage(message, r.last_message.sender) }
+              : r
+          )));
+        }
+      )
+      // The room's previous message becomes the last one
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const { id } = payload.old as Partial<Tables<'messages'>>;
+          const rooms = queryClient.getQueryData<ChatRoomData[]>(roomsKey);
+          if (rooms?.some(r => r.last_message?.id === id)) queryClient.invalidateQueries({ queryKey: roomsKey });
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'chat_participants', filter: `user_id=eq.${userId}` },
+        () => queryClient.invalidateQueries({ queryKey: roomsKey })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  const { refetch } = query;
+  const refresh = useCallback(() => refetch(), [refetch]);
+
+  return {
+    rooms: query.data ?? [],
+    loading: !query.data && query.isFetching,
+    refresh,
+  };
+}
+
+// Finds or starts the direct chat with another user
+export function useOpenDirectChat(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (otherUserId: string) => openDirectChat(userId!, otherUserId),
+    onSuccess: ({ created }) => {
+      if (created) return queryClient.invalidateQueries({ queryKey: chatKeys.rooms(userId ?? '') });
+    },
+  });
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+const LONG_PRESS_MS = 500;
+// Further than this and the finger is scrolling, not pressing
+const MOVE_TOLERANCE_PX = 10;
+
+// Pointer handlers that call onLongPress(item) when an element is held down.
+// Returns a function giving the handlers for each item, so one hook can serve
+// every row of a list. The click that ends a long press is swallowed, so
+// holding a link or an image doesn't also open it.
+export function useLongPress<T>(onLongPress: (item: T) => void) {
+  const timerRef = useRef<number>();
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const firedRef = useRef(false);
+  const onLongPressRef = useRef(onLongPress);
+  onLongPressRef.current = onLongPress;
+
+  const cancel = useCallback(() => {
+    window.clearTimeout(timerRef.current);
+    startRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return useCallback((item: T) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      if (e.pointerType === 'mouse') return;
+      firedRef.current = false;
+      startRef.current = { x: e.clientX, y: e.clientY };
+      window.clearTimeout(timerRef.current);
+      timerRef.current = window.setTimeout(() => {
+        firedRef.current = true;
+        startRef.current = null;
+        onLongPressRef.current(item);
+      }, LONG_PRESS_MS);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const start = startRef.current;
+      if (start && Math.hypot(e.clientX - start.x, e.clientY - start.y) > MOVE_TOLERANCE_PX) cancel();
+    },
+    onPointerUp: cancel,
+    onPointerCancel: cancel,
+    onPointerLeave: cancel,
+    // Mobile browsers open their own menu on a long press
+    onContextMenu: (e: React.MouseEvent) => {
+      if (firedRef.current || startRef.current) e.preventDefault();
+    },
+    onClickCapture: (e: React.MouseEvent) => {
+      if (firedRef.current) {
+        firedRef.current = false;
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    },
+  }), [cancel]);
+}
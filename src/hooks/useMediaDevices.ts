@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import {
+  DevicePreferences,
+  EMPTY_DEVICE_LISTS,
+  listMediaDevices,
+  loadDevicePreferences,
+  MediaDeviceLists,
+  saveDevicePreference
+} from '@/utils/mediaDevices';
+
+export function useMediaDevices() {
+  const { user } = useAuth();
+  const [devices, setDevices] = useState<MediaDeviceLists>(EMPTY_DEVICE_LISTS);
+  const [preferences, setPreferences] = useState<DevicePreferences>({});
+
+  useEffect(() => {
+    setPreferences(user ? loadDevicePreferences(user.id) : {});
+  }, [user]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listMediaDevices());
+    } catch (error) {
+      console.error('Error listing media devices:', error);
+    }
+  }, []);
+
+  // Re-enumerate when a headset or camera is plugged in or removed
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const selectDevice = useCallback((kind: MediaDeviceKind, deviceId: string) => {
+    const device = devices[kind].find(d => d.deviceId === deviceId);
+    if (!user || !device) return;
+
+    setPreferences(saveDevicePreference(user.id, kind, device));
+  }, [user, devices]);
+
+  // Browsers hide device labels until the page has been granted media access
+  const requestAccess = useCallback(async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: true })
+        .catch(() => navigator.mediaDevices.getUserMedia({ audio: true }));
+      stream.getTracks().forEach(track => track.stop());
+      await refresh();
+    } catch (error) {
+      console.error('Error requesting media access:', error);
+      toast({
+        title: "Error",
+        description: "Could not access camera/microphone",
+        variant: "destructive",
+      });
+    }
+  }, [refresh]);
+
+  return { devices, preferences, selectDevice, refresh, requestAccess };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { acquireCallChannel, CallMember } from '@/utils/callChannel';
+
+// Who is currently in the room's call, from the call channel's presence.
+// Empty when there's no call going on.
+export function useOngoingCall(chatRoomId: string) {
+  const [members, setMembers] = useState<CallMember[]>([]);
+
+  useEffect(() => {
+    const channel = acquireCallChannel(chatRoomId);
+    channel.onMembersChange(setMembers);
+
+    return () => {
+      channel.release();
+      setMembers([]);
+    };
+  }, [chatRoomId]);
+
+  return members;
+}
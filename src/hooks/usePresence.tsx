@@ -0,0 +1,127 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  PresenceMeta,
+  PresenceState,
+  readPresence,
+  updateLastSeen,
+  updateLastSeenOnExit,
+} from '@/utils/presence';
+
+// How often last_seen is refreshed while the app is open, so it's close to
+// right even when the page dies without a chance to say so
+const HEARTBEAT_MS = 60_000;
+// No input for this long and we show as away
+const IDLE_MS = 5 * 60_000;
+
+interface PresenceContextType {
+  // Online or away for users with the app open, undefined for everyone else
+  stateOf: (userId: string) => PresenceState | undefined;
+  // When they went offline, if we saw it happen; otherwise `fallback`, the
+  // profile's last_seen
+  lastSeenOf: (userId: string, fallback?: string | null) => string | null;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export function PresenceProvider({ children }: { children: React.ReactNode }) {
+  const { user, session } = useAuth();
+  const userId = user?.id;
+  const [present, setPresent] = useState<Map<string, PresenceState>>(new Map());
+  const [leftAt, setLeftAt] = useState<Map<string, string>>(new Map());
+  // The page can go away at any moment, with no time to ask for a token.
+  // Kept after signing out, for saying we've gone.
+  const accessTokenRef = useRef<string | null>(null);
+  if (session) accessTokenRef.current = session.access_token;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase.channel('presence:online', { config: { presence: { key: userId } } });
+    let state: PresenceState | null = null;
+    let lastActivity = Date.now();
+
+    const currentState = (): PresenceState =>
+      document.visibilityState === 'visible' && Date.now() - lastActivity < IDLE_MS ? 'online' : 'away';
+
+    const track = (force = false) => {
+      const next = currentState();
+      if (next === state && !force) return;
+      state = next;
+      const meta: PresenceMeta = { userId, state };
+      channel.track(meta).catch(error => console.error('Error updating presence:', error));
+    };
+
+    const heartbeat = () => {
+      track();
+      updateLastSeen(userId, true).catch(error => console.error('Error updating last seen:', error));
+    };
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setPresent(readPresence(channel.presenceState<PresenceMeta>()));
+      })
+      .on('presence', { event: 'leave' }, ({ key }) => {
+        setLeftAt(current => new Map(current).set(key, new Date().toISOString()));
+      })
+      .subscribe((status) => {
+        // Presence doesn't survive a reconnect on its own
+        if (status === 'SUBSCRIBED') track(true);
+      });
+
+    heartbeat();
+    const interval = window.setInterval(heartbeat, HEARTBEAT_MS);
+
+    // Coming back from idle shows us online straight away; going idle waits
+    // for the next heartbeat
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      if (state === 'away') track();
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') lastActivity = Date.now();
+      track();
+    };
+    const handlePageHide = () => {
+      if (accessTokenRef.current) updateLastSeenOnExit(userId, accessTokenRef.current);
+    };
+    const activityEvents = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+    activityEvents.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      window.clearInterval(interval);
+      activityEvents.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', handlePageHide);
+      supabase.removeChannel(channel);
+      setPresent(new Map());
+      // Signing out, by which time supabase-js has dropped the session
+      if (accessTokenRef.current) updateLastSeenOnExit(userId, accessTokenRef.current);
+    };
+  }, [userId]);
+
+  const stateOf = useCallback((userId: string) => present.get(userId), [present]);
+
+  const lastSeenOf = useCallback((userId: string, fallback?: string | null) => {
+    const left = leftAt.get(userId);
+    if (left && (!fallback || new Date(left) > new Date(fallback))) return left;
+    return fallback ?? null;
+  }, [leftAt]);
+
+  return (
+    <PresenceContext.Provider value={{ stateOf, lastSeenOf }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
+
+export function usePresence() {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { chatKeys } from '@/hooks/useChat';
+import type { ChatMessage } from '@/utils/messages';
+import {
+  fetchReadReceiptsSetting,
+  fetchReceipts,
+  markMessagesRead,
+  ParticipantReceipt,
+  updateReadReceiptsSetting,
+} from '@/utils/receipts';
+
+// Every member's delivery and read position in a room, kept current over
+// realtime as they move
+export function useRoomReceipts(chatRoomId: string) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: chatKeys.receipts(chatRoomId),
+    queryFn: () => fetchReceipts(chatRoomId),
+    staleTime: Infinity,
+    refetchOnMount: 'always',
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (query.error) console.error('Error fetching receipts:', query.error);
+  }, [query.error]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`receipts:${chatRoomId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chat_participants',
+          filter: `chat_room_id=eq.${chatRoomId}`
+        },
+        (payload) => {
+          const { user_id, last_read_message_id, last_read_at, last_delivered_at } = payload.new as Tables<'chat_participants'>;
+          queryClient.setQueryData<ParticipantReceipt[]>(chatKeys.receipts(chatRoomId), current => current?.map(receipt => (
+            receipt.user_id === user_id ? { user_id, last_read_message_id, last_read_at, last_delivered_at } : receipt
+          )));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'chat_participants',
+          filter: `chat_room_id=eq.${chatRoomId}`
+        },
+        () => queryClient.invalidateQueries({ queryKey: chatKeys.receipts(chatRoomId) })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [chatRoomId, queryClient]);
+
+  return query.data ?? [];
+}
+
+// Messages from the server and from realtime format times differently
+const createdAt = (message: ChatMessage) => new Date(message.created_at).getTime();
+
+// Marks messages read as they're shown. Call it with the newest message on
+// screen; it only reports moving forward, and waits while the page is hidden
+// (or the report fails) to send the newest one it has been given.
+export function useMarkRead() {
+  const latestRef = useRef<ChatMessage | null>(null);
+  const markedRef = useRef(0);
+  const sendingRef = useRef(false);
+
+  const flush = useCallback(async () => {
+    const latest = latestRef.current;
+    if (!latest || sendingRef.current || document.visibilityState !== 'visible' || !navigator.onLine) return;
+    if (markedRef.current >= createdAt(latest)) return;
+
+    sendingRef.current = true;
+    try {
+      await markMessagesRead(latest.id);
+      markedRef.current = createdAt(latest);
+    } catch (error) {
+      console.error('Error marking messages read:', error);
+    } finally {
+      sendingRef.current = false;
+    }
+    // Newer messages may have been shown while this one was sent
+    if (latestRef.current !== latest) flush();
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => flush();
+    document.addEventListener('visibilitychange', handleChange);
+    window.addEventListener('online', handleChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleChange);
+      window.removeEventListener('online', handleChange);
+    };
+  }, [flush]);
+
+  return useCallback((message: ChatMessage) => {
+    if (message.status) return;
+    if (latestRef.current && createdAt(latestRef.current) >= createdAt(message)) return;
+    latestRef.current = message;
+    flush();
+  }, [flush]);
+}
+
+// Whether we share read receipts. Users who don't also don't see other
+// people's, so rooms need this too.
+export function useReadReceiptsSetting(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = chatKeys.readReceipts(userId ?? '');
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => fetchReadReceiptsSetting(userId!),
+    enabled: !!userId,
+    staleTime: Infinity,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (enabled: boolean) => updateReadReceiptsSetting(userId!, enabled),
+    onMutate: (enabled) => {
+      const previous = queryClient.getQueryData<boolean>(queryKey);
+      queryClient.setQueryData(queryKey, enabled);
+      return { previous };
+    },
+    onError: (error, _enabled, context) => {
+      console.error('Error updating read receipts:', error);
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast({
+        title: "Couldn't update read receipts",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    enabled: query.data ?? true,
+    setEnabled: mutation.mutate,
+  };
+}
@@ -0,0 +1,63 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { getSignedChatFileUrl, getSignedUrlRefreshDelay } from '@/utils/chatFiles';
+
+// An element failing on a brand new URL isn't an expiry problem; don't retry
+const MIN_FORCED_REFRESH_INTERVAL_MS = 10_000;
+
+// A signed URL for a chat file that renews itself before it expires.
+// `refresh` gets a new one right away, e.g. from a media element's onError.
+export function useSignedUrl(path: string | null) {
+  const [signed, setSigned] = useState<{ url: string; expiresAt: number } | null>(null);
+  const [error, setError] = useState(false);
+  const lastForcedRef = useRef(0);
+
+  const load = useCallback(async (force = false) => {
+    if (!path) return;
+    try {
+      setSigned(await getSignedChatFileUrl(path, { force }));
+      setError(false);
+    } catch (err) {
+      console.error('Error signing file URL:', err);
+      setError(true);
+    }
+  }, [path]);
+
+  useEffect(() => {
+    setSigned(null);
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!signed) return;
+    const timer = setTimeout(() => load(), getSignedUrlRefreshDelay(signed.expiresAt));
+    return () => clearTimeout(timer);
+  }, [signed, load]);
+
+  const refresh = useCallback(() => {
+    if (Date.now() - lastForcedRef.current < MIN_FORCED_REFRESH_INTERVAL_MS) return;
+    lastForcedRef.current = Date.now();
+    load(true);
+  }, [load]);
+
+  return { url: signed?.url, error, refresh };
+}
+
+// Points a media element at a (renewed) URL without losing its place, which
+// setting `src` directly would do mid-playback
+export function useMediaSource(ref: RefObject<HTMLMediaElement>, url: string | undefined) {
+  useEffect(() => {
+    const media = ref.current;
+    if (!media || !url || media.src === url) return;
+
+    const time = media.currentTime;
+    const wasPlaying = !media.paused;
+    media.src = url;
+
+    if (time > 0) {
+      media.addEventListener('loadedmetadata', () => {
+        media.currentTime = time;
+        if (wasPlaying) media.play().catch(() => {});
+      }, { once: true });
+    }
+  }, [ref, url]);
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// At most one "typing" broadcast per this long while someone keeps typing
+const TYPING_THROTTLE_MS = 3000;
+// Typists we haven't heard from for this long have stopped, e.g. because
+// they closed the page mid-sentence
+const TYPING_TIMEOUT_MS = 6000;
+
+type TypingPayload = { userId: string };
+
+// Who else is typing in a room, over the room's `typing:${chatRoomId}`
+// broadcast channel. The composer calls notifyTyping on every change and
+// stopTyping once the message is sent or cleared.
+export function useTyping(chatRoomId: string, userId: string) {
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastSentRef = useRef(0);
+
+  useEffect(() => {
+    const timers = new Map<string, number>();
+
+    const stopped = (typist: string) => {
+      window.clearTimeout(timers.get(typist));
+      timers.delete(typist);
+      setTypingUserIds(current => current.filter(id => id !== typist));
+    };
+
+    const channel = supabase
+      .channel(`typing:${chatRoomId}`)
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const { userId: typist } = payload as TypingPayload;
+        if (!typist || typist === userId) return;
+        window.clearTimeout(timers.get(typist));
+        timers.set(typist, window.setTimeout(() => stopped(typist), TYPING_TIMEOUT_MS));
+        setTypingUserIds(current => (current.includes(typist) ? current : [...current, typist]));
+      })
+      .on('broadcast', { event: 'stopped' }, ({ payload }) => {
+        stopped((payload as TypingPayload).userId);
+      })
+      .subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      timers.forEach(timer => window.clearTimeout(timer));
+      setTypingUserIds([]);
+      if (lastSentRef.current) channel.send({ type: 'broadcast', event: 'stopped', payload: { userId } });
+      lastSentRef.current = 0;
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [chatRoomId, userId]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentRef.current < TYPING_THROTTLE_MS) return;
+    lastSentRef.current = now;
+    channelRef.current?.send({ type: 'broadcast', event: 'typing', payload: { userId } });
+  }, [userId]);
+
+  const stopTyping = useCallback(() => {
+    if (!lastSentRef.current) return;
+    lastSentRef.current = 0;
+    channelRef.current?.send({ type: 'broadcast', event: 'stopped', payload: { userId } });
+  }, [userId]);
+
+  return { typingUserIds, notifyTyping, stopTyping };
+}
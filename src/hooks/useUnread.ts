@@ -0,0 +1,127 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { chatKeys } from '@/hooks/useChat';
+import { fetchUnreadCounts, markRoomRead, markRoomUnread, UnreadState } from '@/utils/receipts';
+
+type UnreadCounts = Record<string, UnreadState>;
+
+// Rooms marked unread count as one, however many messages they have unread
+const totalUnread = (counts: UnreadCounts | undefined) =>
+  Object.values(counts ?? {}).reduce((total, state) => total + (state.count || (state.markedUnread ? 1 : 0)), 0);
+
+// Unread counts for all of the user's rooms, with "Mark as read" and "Mark as
+// unread". useUnreadSync keeps them current.
+export function useUnreadCounts(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = chatKeys.unread(userId ?? '');
+
+  const query = useQuery({
+    queryKey,
+    queryFn: fetchUnreadCounts,
+    enabled: !!userId,
+  });
+
+  const setRoom = (chatRoomId: string, state: UnreadState) =>
+    queryClient.setQueryData<UnreadCounts>(queryKey, current => current && { ...current, [chatRoomId]: state });
+
+  const onError = (error: unknown, chatRoomId: string, context: { previous?: UnreadState } | undefined) => {
+    console.error('Error updating unread state:', error);
+    if (context?.previous) setRoom(chatRoomId, context.previous);
+    toast({
+      title: "Couldn't update chat",
+      description: "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const markRead = useMutation({
+    mutationFn: markRoomRead,
+    onMutate: (chatRoomId) => {
+      const previous = queryClient.getQueryData<UnreadCounts>(queryKey)?.[chatRoomId];
+      setRoom(chatRoomId, { count: 0, markedUnread: false });
+      return { previous };
+    },
+    onError,
+  });
+
+  const markUnread = useMutation({
+    mutationFn: markRoomUnread,
+    onMutate: (chatRoomId) => {
+      const previous = queryClient.getQueryData<UnreadCounts>(queryKey)?.[chatRoomId];
+      setRoom(chatRoomId, { count: previous?.count ?? 0, markedUnread: true });
+      return { previous };
+    },
+    onError,
+  });
+
+  return {
+    unread: query.data ?? {},
+    total: totalUnread(query.data),
+    markRead: markRead.mutate,
+    markUnread: markUnread.mutate,
+  };
+}
+
+// Keeps the unread counts live, and shows their total on the app icon where
+// the browser supports it. Used once, for the signed in user.
+export function useUnreadSync(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { total } = useUnreadCounts(userId);
+
+  useEffect(() => {
+    if (!userId) return;
+    const queryKey = chatKeys.unread(userId);
+    const refetch = () => queryClient.invalidateQueries({ queryKey });
+
+    // Only messages from our own rooms come through
+    const channel = supabase
+      .channel(`unread:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as Tables<'messages'>;
+          if (message.sender_id === userId) return;
+          const counts = queryClient.getQueryData<UnreadCounts>(queryKey);
+          const state = counts?.[message.chat_room_id];
+          if (!state) {
+            refetch();
+            return;
+          }
+          queryClient.setQueryData<UnreadCounts>(queryKey, {
+            ...counts,
+            [message.chat_room_id]: { ...state, count: state.count + 1 },
+          });
+        }
+      )
+      // A message deleted for everyone stops counting
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as Tables<'messages'>;
+          if (message.deleted_at && message.sender_id !== userId) refetch();
+        }
+      )
+      // Read, or marked unread, here or on another device
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'chat_read_cursors', filter: `user_id=eq.${userId}` },
+        refetch
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  useEffect(() => {
+    if (!('setAppBadge' in navigator)) return;
+    const update = total > 0 ? navigator.setAppBadge(total) : navigator.clearAppBadge();
+    update.catch((error) => console.error('Error updating app badge:', error));
+  }, [total]);
+}
@@ -14,23 +14,129 @@ export type Database = {
   }
   public: {
     Tables: {
+      call_quality_reports: {
+        Row: {
+          call_id: string
+          chat_room_id: string
+          created_at: string
+          ended_at: string
+          id: string
+          started_at: string
+          summary: Json
+          transport: string
+          user_id: string
+        }
+        Insert: {
+          call_id: string
+          chat_room_id: string
+          created_at?: string
+          ended_at: string
+          id?: string
+          started_at: string
+          summary?: Json
+          transport: string
+          user_id: string
+        }
+        Update: {
+          call_id?: string
+          chat_room_id?: string
+          created_at?: string
+          ended_at?: string
+          id?: string
+          started_at?: string
+          summary?: Json
+          transport?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_quality_reports_chat_room_id_fkey"
+            columns: ["chat_room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calls: {
+        Row: {
+          answered_at: string | null
+          call_type: string
+          caller_id: string
+          chat_room_id: string
+          created_at: string
+          duration_seconds: number | null
+          ended_at: string | null
+          id: string
+          outcome: string
+          participants: string[]
+          started_at: string
+          updated_at: string
+        }
+        Insert: {
+          answered_at?: string | null
+          call_type: string
+          caller_id: string
+          chat_room_id: string
+          created_at?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          id?: string
+          outcome?: string
+          participants?: string[]
+          started_at?: string
+          updated_at?: string
+        }
+        Update: {
+          answered_at?: string | null
+          call_type?: string
+          caller_id?: string
+          chat_room_id?: string
+          created_at?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          id?: string
+          outcome?: string
+          participants?: string[]
+          started_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calls_chat_room_id_fkey"
+            columns: ["chat_room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_participants: {
         Row: {
           chat_room_id: string
           id: string
           joined_at: string
+          last_delivered_at: string | null
+          last_read_at: string | null
+          last_read_message_id: string | null
           user_id: string
         }
         Insert: {
           chat_room_id: string
           id?: string
           joined_at?: string
+          last_delivered_at?: string | null
+          last_read_at?: string | null
+          last_read_message_id?: string | null
           user_id: string
         }
         Update: {
           chat_room_id?: string
           id?: string
           joined_at?: string
+          last_delivered_at?: string | null
+          last_read_at?: string | null
+          last_read_message_id?: string | null
           user_id?: string
         }
         Relationships: [
@@ -41,6 +147,45 @@ export type Database = {
             referencedRelation: "chat_rooms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chat_participants_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_read_cursors: {
+        Row: {
+          chat_room_id: string
+          last_read_at: string | null
+          marked_unread: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chat_room_id: string
+          last_read_at?: string | null
+          marked_unread?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chat_room_id?: string
+          last_read_at?: string | null
+          marked_unread?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_read_cursors_chat_room_id_fkey"
+            columns: ["chat_room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
         ]
       }
       chat_rooms: {
@@ -124,32 +269,147 @@ export type Database = {
         }
         Relationships: []
       }
+      message_deletions: {
+        Row: {
+          created_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_deletions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          chat_room_id: string
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          chat_room_id: string
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          chat_room_id?: string
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_chat_room_id_fkey"
+            columns: ["chat_room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          message_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          message_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           chat_room_id: string
           content: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
           id: string
           message_type: string | null
+          metadata: Json | null
+          reply_count: number
+          reply_to_id: string | null
           sender_id: string
+          thread_root_id: string | null
           updated_at: string
         }
         Insert: {
           chat_room_id: string
           content: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           message_type?: string | null
+          metadata?: Json | null
+          reply_count?: number
+          reply_to_id?: string | null
           sender_id: string
+          thread_root_id?: string | null
           updated_at?: string
         }
         Update: {
           chat_room_id?: string
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
           message_type?: string | null
+          metadata?: Json | null
+          reply_count?: number
+          reply_to_id?: string | null
           sender_id?: string
+          thread_root_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -160,6 +420,20 @@ export type Database = {
             referencedRelation: "chat_rooms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_thread_root_id_fkey"
+            columns: ["thread_root_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -170,6 +444,7 @@ export type Database = {
           id: string
           is_online: boolean | null
           last_seen: string | null
+          read_receipts: boolean
           status: string | null
           updated_at: string
           user_id: string
@@ -182,6 +457,7 @@ export type Database = {
           id?: string
           is_online?: boolean | null
           last_seen?: string | null
+          read_receipts?: boolean
           status?: string | null
           updated_at?: string
           user_id: string
@@ -194,6 +470,7 @@ export type Database = {
           id?: string
           is_online?: boolean | null
           last_seen?: string | null
+          read_receipts?: boolean
           status?: string | null
           updated_at?: string
           user_id?: string
@@ -240,8 +517,32 @@ export type Database = {
         Args: { user1_id: string; user2_id: string }
         Returns: boolean
       }
+      chat_file_room_id: { Args: { object_name: string }; Returns: string }
+      delete_message_for_everyone: {
+        Args: { message_uuid: string }
+        Returns: undefined
+      }
+      edit_message: {
+        Args: { message_uuid: string; new_content: string }
+        Returns: undefined
+      }
+      get_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          chat_room_id: string
+          marked_unread: boolean
+          unread_count: number
+        }[]
+      }
       is_room_created_by: { Args: { room_id: string }; Returns: boolean }
       is_user_in_chat: { Args: { room_id: string }; Returns: boolean }
+      mark_messages_delivered: {
+        Args: { room_uuid?: string }
+        Returns: undefined
+      }
+      mark_messages_read: { Args: { message_uuid: string }; Returns: undefined }
+      mark_room_read: { Args: { room_uuid: string }; Returns: undefined }
+      mark_room_unread: { Args: { room_uuid: string }; Returns: undefined }
       update_user_status: {
         Args: { online_status: boolean; user_uuid: string }
         Returns: undefined
@@ -1,10 +1,13 @@
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { ChatDashboard } from '@/components/ChatDashboard';
 import { useNotifications } from '@/hooks/useNotifications';
 import { registerServiceWorker, setupPushNotifications } from '@/utils/serviceWorker';
-import { useIncomingCalls } from '@/hooks/useIncomingCalls';
+import { useCallSession } from '@/hooks/useCallSession';
+import { useUploadQueue } from '@/hooks/useAttachmentUpload';
+import { useMessageQueue } from '@/hooks/useChat';
+import { useUnreadSync } from '@/hooks/useUnread';
 import IncomingCallOverlay from '@/components/IncomingCallOverlay';
 import { WebRTCCall } from '@/components/WebRTCCall';
 
@@ -12,12 +15,10 @@ const Index = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
   const { requestNotificationPermission } = useNotifications();
-  const { incomingCall, clearIncomingCall } = useIncomingCalls();
-  const [activeCall, setActiveCall] = useState<null | {
-    chatRoomId: string;
-    callType: 'voice' | 'video';
-    participants: string[];
-  }>(null);
+  const { session, acceptCall, declineCall, markConnected, endCall } = useCallSession();
+  useUploadQueue(user?.id);
+  useMessageQueue(user?.id);
+  useUnreadSync(user?.id);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -57,38 +58,32 @@ const Index = () => {
     return null; // Will redirect to auth
   }
 
-  const acceptIncoming = () => {
-    if (!incomingCall) return;
-    setActiveCall({
-      chatRoomId: incomingCall.chatRoomId,
-      callType: incomingCall.callType,
-      participants: incomingCall.participants,
-    });
-    clearIncomingCall();
-  };
-
-  const declineIncoming = () => {
-    clearIncomingCall();
-  };
+  const isRinging = session?.direction === 'incoming' && session.phase === 'ringing';
+  const showCall = !!session && session.phase !== 'ended' && !isRinging;
 
   return (
     <>
       <ChatDashboard />
-      {incomingCall && !activeCall && (
+      {isRinging && (
         <IncomingCallOverlay
           callerName={''}
-          callType={incomingCall.callType}
-          onAccept={acceptIncoming}
-          onDecline={declineIncoming}
+          callType={session.callType}
+          onAccept={acceptCall}
+          onDecline={declineCall}
         />
       )}
-      {activeCall && (
+      {showCall && (
         <WebRTCCall
-          chatRoomId={activeCall.chatRoomId}
-          isIncoming
-          callType={activeCall.callType}
-          participants={activeCall.participants}
-          onEndCall={() => setActiveCall(null)}
+          callId={session.callId}
+          callerId={session.from}
+          chatRoomId={session.chatRoomId}
+          isIncoming={session.direction === 'incoming'}
+          callType={session.callType}
+          participants={session.participants}
+          phase={session.phase}
+          transport={session.transport}
+          onConnected={markConnected}
+          onEndCall={endCall}
         />
       )}
     </>
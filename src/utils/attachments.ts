@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+import { buildChatFilePath, resolveChatFilePath } from '@/utils/chatFiles';
+import { isValidBlurhash } from '@/utils/blurhash';
+import { processMedia } from '@/utils/mediaProcessor';
+
+// File attachments. The file is uploaded to chat-files first and the message
+// is only created once it's there; everything needed to render it (storage
+// path, type, size, dimensions, thumbnail) goes in the message metadata. The
+// message content holds the caption, or the file name when there isn't one.
+// Images and videos are processed first (see mediaProcessor.ts), so the
+// stored file may be smaller than, and named differently from, the one picked.
+
+export type AttachmentKind = 'image' | 'video' | 'file';
+
+export type AttachmentMetadata = {
+  path: string;
+  url?: string; // public URL, only on attachments from before the bucket was private
+  name: string;
+  mime_type: string;
+  size: number;
+  width?: number;
+  height?: number;
+  duration_ms?: number;
+  thumbnail_path?: string; // small JPEG preview, stored next to the file
+  blurhash?: string;
+};
+
+export const MAX_ATTACHMENT_MB = 50;
+
+export const getAttachmentKind = (mimeType: string): AttachmentKind =>
+  mimeType.startsWith('image/') ? 'image' : mimeType.startsWith('video/') ? 'video' : 'file';
+
+export const isAttachmentMessage = (messageType: string) =>
+  messageType === 'image' || messageType === 'video' || messageType === 'file';
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export const parseAttachmentMetadata = (metadata: unknown): AttachmentMetadata | null => {
+  const value = metadata as Partial<AttachmentMetadata> | null;
+  const path = resolveChatFilePath(value?.path || value?.url);
+  if (!value || !path || typeof value.name !== 'string') return null;
+  return {
+    path,
+    name: value.name,
+    mime_type: value.mime_type ?? '',
+    size: value.size ?? 0,
+    width: value.width,
+    height: value.height,
+    duration_ms: value.duration_ms,
+    thumbnail_path: resolveChatFilePath(value.thumbnail_path) ?? undefined,
+    blurhash: isValidBlurhash(value.blurhash) ? value.blurhash : undefined,
+  };
+};
+
+const buildStoragePath = (file: File, chatRoomId: string, userId: string) => {
+  const extension = file.name.includes('.') ? file.name.split('.').pop() : undefined;
+  return buildChatFilePath(chatRoomId, userId, `${crypto.randomUUID()}${extension ? `.${extension}` : ''}`);
+};
+
+// Processes the picked file and works out where it (and its thumbnail) will
+// be stored. Uploading is left to uploadQueue.ts so it can be paused, resumed
+// and carried over to the next session.
+export async function prepareAttachment(picked: File, chatRoomId: string, userId: string) {
+  const { file, thumbnail, ...mediaInfo } = await processMedia(picked);
+  const path = buildStoragePath(file, chatRoomId, userId);
+  const attachment: AttachmentMetadata = {
+    path,
+    name: file.name,
+    mime_type: file.type || 'application/octet-stream',
+    size: file.size,
+    ...mediaInfo,
+    thumbnail_path: thumbnail ? path.replace(/(\.[^./]+)?$/, '.thumb.jpg') : undefined,
+  };
+  return { file, thumbnail, attachment };
+}
+
+export async function sendAttachmentMessage(
+  attachment: AttachmentMetadata,
+  chatRoomId: string,
+  userId: string,
+  caption?: string
+) {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      chat_room_id: chatRoomId,
+      sender_id: userId,
+      content: caption?.trim() || attachment.name,
+      message_type: getAttachmentKind(attachment.mime_type),
+      metadata: attachment,
+    });
+  if (error) throw error;
+}
@@ -0,0 +1,115 @@
+// Audio level analysis for call participants. Each stream's audio track feeds
+// a WebAudio AnalyserNode (not connected to the speakers); every poll we take
+// the RMS level to decide who is speaking and who the active speaker is.
+
+export type SpeakerState = {
+  activeSpeakerId: string | null;
+  speaking: Set<string>;
+};
+
+const POLL_INTERVAL_MS = 100;
+// RMS of the time-domain signal above which someone counts as talking
+const SPEAKING_LEVEL = 0.02;
+// Keep the speaking indicator on through short pauses between words
+const SPEAKING_HOLD_MS = 500;
+// Someone must be the loudest for this long before taking over the main tile
+const SWITCH_SPEAKER_AFTER_MS = 800;
+
+type MonitoredSource = {
+  track: MediaStreamTrack;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  buffer: Float32Array;
+  lastSpokeAt: number;
+};
+
+export function createAudioLevelMonitor(onChange: (state: SpeakerState) => void) {
+  let context: AudioContext | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const sources = new Map<string, MonitoredSource>();
+
+  let activeSpeakerId: string | null = null;
+  let candidate: { id: string; since: number } | null = null;
+  let speaking = new Set<string>();
+
+  const emit = () => onChange({ activeSpeakerId, speaking });
+
+  const poll = () => {
+    const now = Date.now();
+    const nextSpeaking = new Set<string>();
+    let loudest: { id: string; level: number } | null = null;
+
+    sources.forEach((entry, id) => {
+      entry.analyser.getFloatTimeDomainData(entry.buffer);
+      let sum = 0;
+      for (let i = 0; i < entry.buffer.length; i++) sum += entry.buffer[i] * entry.buffer[i];
+      const level = Math.sqrt(sum / entry.buffer.length);
+
+      if (level > SPEAKING_LEVEL) {
+        entry.lastSpokeAt = now;
+        if (!loudest || level > loudest.level) loudest = { id, level };
+      }
+      if (now - entry.lastSpokeAt < SPEAKING_HOLD_MS) nextSpeaking.add(id);
+    });
+
+    let changed = nextSpeaking.size !== speaking.size ||
+      Array.from(nextSpeaking).some(id => !speaking.has(id));
+    speaking = nextSpeaking;
+
+    if (loudest && loudest.id !== activeSpeakerId) {
+      if (candidate?.id !== loudest.id) candidate = { id: loudest.id, since: now };
+      if (now - candidate.since >= SWITCH_SPEAKER_AFTER_MS) {
+        activeSpeakerId = loudest.id;
+        candidate = null;
+        changed = true;
+      }
+    } else {
+      candidate = null;
+    }
+
+    if (changed) emit();
+  };
+
+  const remove = (id: string) => {
+    const entry = sources.get(id);
+    if (!entry) return;
+
+    entry.source.disconnect();
+    sources.delete(id);
+    if (activeSpeakerId === id) {
+      activeSpeakerId = null;
+      emit();
+    }
+  };
+
+  return {
+    // Safe to call repeatedly; re-attaches only when the audio track changed
+    add: (id: string, stream: MediaStream) => {
+      const [track] = stream.getAudioTracks();
+      if (!track || sources.get(id)?.track === track) return;
+      remove(id);
+
+      context ??= new AudioContext();
+      if (context.state === 'suspended') context.resume().catch(() => {});
+
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      source.connect(analyser);
+      sources.set(id, { track, source, analyser, buffer: new Float32Array(analyser.fftSize), lastSpokeAt: 0 });
+
+      if (!timer) timer = setInterval(poll, POLL_INTERVAL_MS);
+    },
+    remove,
+    dispose: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+      sources.forEach(entry => entry.source.disconnect());
+      sources.clear();
+      context?.close().catch(() => {});
+      context = null;
+    },
+  };
+}
+
+export type AudioLevelMonitor = ReturnType<typeof createAudioLevelMonitor>;
@@ -0,0 +1,200 @@
+import type { ConnectionStatsSample } from '@/utils/callStats';
+
+// Bandwidth adaptation for outgoing video. Each peer connection sits on a
+// rung of a quality ladder chosen from the browser's bandwidth estimate and
+// observed loss/RTT; the rung is applied with RTCRtpSender.setParameters, so
+// no renegotiation is needed. The bottom rung stops sending video entirely.
+// We step down as soon as a sample says so, and only step back up after a
+// run of good samples so the call doesn't oscillate.
+
+export type VideoQualityLevel = 'high' | 'medium' | 'low' | 'audio-only';
+
+const LADDER: VideoQualityLevel[] = ['audio-only', 'low', 'medium', 'high'];
+
+type LevelSettings = { maxBitrate: number; scaleResolutionDownBy: number; maxFramerate: number };
+
+const LEVEL_SETTINGS: Record<Exclude<VideoQualityLevel, 'audio-only'>, LevelSettings> = {
+  high: { maxBitrate: 1_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  medium: { maxBitrate: 600_000, scaleResolutionDownBy: 2, maxFramerate: 24 },
+  low: { maxBitrate: 200_000, scaleResolutionDownBy: 4, maxFramerate: 15 },
+};
+
+// Estimated kbps needed to hold each level
+const LEVEL_MIN_KBPS: Record<VideoQualityLevel, number> = {
+  high: 1200,
+  medium: 450,
+  low: 150,
+  'audio-only': 0,
+};
+
+// Consecutive good samples before stepping up a level (samples are ~2s apart)
+const UPGRADE_AFTER_SAMPLES = 3;
+const RESUME_VIDEO_AFTER_SAMPLES = 5;
+
+// Simulcast layers for SFU calls, lowest first; the SFU picks one per receiver
+export const SIMULCAST_ENCODINGS: RTCRtpEncodingParameters[] = [
+  { rid: 'q', scaleResolutionDownBy: 4, maxBitrate: 150_000 },
+  { rid: 'h', scaleResolutionDownBy: 2, maxBitrate: 500_000 },
+  { rid: 'f', scaleResolutionDownBy: 1, maxBitrate: 1_500_000 },
+];
+
+// Layers left active at each level when sending simulcast
+const SIMULCAST_ACTIVE_LAYERS: Record<VideoQualityLevel, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+  'audio-only': 0,
+};
+
+export const supportsSimulcast = () =>
+  typeof RTCRtpSender !== 'undefined' && 'setParameters' in RTCRtpSender.prototype &&
+  typeof RTCPeerConnection !== 'undefined' && 'addTransceiver' in RTCPeerConnection.prototype;
+
+type NetworkInformation = EventTarget & {
+  type?: string;
+  effectiveType?: string;
+  saveData?: boolean;
+};
+
+const getNetworkInformation = () =>
+  (navigator as Navigator & { connection?: NetworkInformation }).connection;
+
+// Highest level worth trying on the current network; mobile data starts lower
+export function getNetworkLevelCap(): VideoQualityLevel {
+  const connection = getNetworkInformation();
+  if (!connection) return 'high';
+  if (connection.saveData || connection.effectiveType === 'slow-2g' || connection.effectiveType === '2g') return 'low';
+  if (connection.effectiveType === '3g' || connection.type === 'cellular') return 'medium';
+  return 'high';
+}
+
+const lowerOf = (a: VideoQualityLevel, b: VideoQualityLevel) =>
+  LADDER.indexOf(a) < LADDER.indexOf(b) ? a : b;
+
+const stepDown = (level: VideoQualityLevel) => LADDER[Math.max(0, LADDER.indexOf(level) - 1)];
+
+const stepUp = (level: VideoQualityLevel) => LADDER[Math.min(LADDER.length - 1, LADDER.indexOf(level) + 1)];
+
+// The level the network can sustain right now, ignoring hysteresis
+function getSustainableLevel(sample: ConnectionStatsSample, current: VideoQualityLevel): VideoQualityLevel {
+  // With video paused the bandwidth estimate only reflects the audio we send,
+  // so probe back up to the lowest video level once the link looks healthy
+  if (current === 'audio-only') {
+    return (sample.packetLossPct ?? 0) < 2 && (sample.rttMs ?? 0) < 300 ? 'low' : 'audio-only';
+  }
+
+  let level: VideoQualityLevel = 'high';
+  if (sample.availableOutgoingKbps !== undefined) {
+    level = LADDER.slice().reverse().find(candidate => sample.availableOutgoingKbps! >= LEVEL_MIN_KBPS[candidate]) ?? 'audio-only';
+  }
+
+  // Heavy loss or latency means we're congested whatever the estimate says
+  if ((sample.packetLossPct ?? 0) > 10 || (sample.rttMs ?? 0) > 800) {
+    level = lowerOf(level, stepDown(current));
+  }
+  return level;
+}
+
+async function applyLevel(pc: RTCPeerConnection, level: VideoQualityLevel) {
+  const senders = pc.getSenders().filter(sender => sender.track?.kind === 'video');
+
+  await Promise.all(senders.map(async sender => {
+    const params = sender.getParameters();
+    // Encodings only exist once the sender has been negotiated
+    if (!params.encodings?.length) return;
+
+    // Screen shares keep their resolution so text stays readable
+    const isScreen = sender.track?.contentHint === 'detail' || sender.track?.contentHint === 'text';
+    params.degradationPreference = isScreen ? 'maintain-resolution' : 'balanced';
+
+    if (params.encodings.length > 1) {
+      const activeLayers = SIMULCAST_ACTIVE_LAYERS[level];
+      params.encodings.forEach((encoding, index) => {
+        encoding.active = index < activeLayers;
+      });
+    } else {
+      const [encoding] = params.encodings;
+      encoding.active = level !== 'audio-only';
+      if (level !== 'audio-only') {
+        const settings = LEVEL_SETTINGS[level];
+        encoding.maxBitrate = settings.maxBitrate;
+        encoding.maxFramerate = isScreen ? Math.min(settings.maxFramerate, 15) : settings.maxFramerate;
+        encoding.scaleResolutionDownBy = isScreen ? 1 : settings.scaleResolutionDownBy;
+      }
+    }
+
+    await sender.setParameters(params);
+  }));
+}
+
+export function createBitrateController(
+  onLevelChange: (pc: RTCPeerConnection, level: VideoQualityLevel, previous: VideoQualityLevel) => void
+) {
+  const connections = new Map<RTCPeerConnection, { level: VideoQualityLevel; goodSamples: number }>();
+  let cap = getNetworkLevelCap();
+
+  const setLevel = (pc: RTCPeerConnection, level: VideoQualityLevel) => {
+    const state = connections.get(pc)!;
+    const previous = state.level;
+    state.level = level;
+    state.goodSamples = 0;
+
+    applyLevel(pc, level).catch(error => {
+      console.warn('Failed to apply video bitrate settings', error);
+    });
+    if (level !== previous) onLevelChange(pc, level, previous);
+  };
+
+  const handleNetworkChange = () => {
+    cap = getNetworkLevelCap();
+    connections.forEach((state, pc) => {
+      if (LADDER.indexOf(state.level) > LADDER.indexOf(cap)) setLevel(pc, cap);
+    });
+  };
+
+  getNetworkInformation()?.addEventListener('change', handleNetworkChange);
+
+  return {
+    handleSample: (pc: RTCPeerConnection, sample: ConnectionStatsSample) => {
+      if (pc.connectionState === 'closed') {
+        connections.delete(pc);
+        return;
+      }
+
+      const state = connections.get(pc);
+      if (!state) {
+        connections.set(pc, { level: cap, goodSamples: 0 });
+        setLevel(pc, lowerOf(cap, getSustainableLevel(sample, cap)));
+        return;
+      }
+
+      const sustainable = lowerOf(cap, getSustainableLevel(sample, state.level));
+      const currentIndex = LADDER.indexOf(state.level);
+      const sustainableIndex = LADDER.indexOf(sustainable);
+
+      if (sustainableIndex < currentIndex) {
+        setLevel(pc, sustainable);
+      } else if (sustainableIndex > currentIndex) {
+        state.goodSamples++;
+        const needed = state.level === 'audio-only' ? RESUME_VIDEO_AFTER_SAMPLES : UPGRADE_AFTER_SAMPLES;
+        if (state.goodSamples >= needed) setLevel(pc, stepUp(state.level));
+      } else {
+        state.goodSamples = 0;
+      }
+    },
+    // Re-apply current levels, e.g. after a sender's track was replaced
+    reapply: () => {
+      connections.forEach((state, pc) => {
+        applyLevel(pc, state.level).catch(error => {
+          console.warn('Failed to apply video bitrate settings', error);
+        });
+      });
+    },
+    dispose: () => {
+      getNetworkInformation()?.removeEventListener('change', handleNetworkChange);
+      connections.clear();
+    },
+  };
+}
+
+export type BitrateController = ReturnType<typeof createBitrateController>;
@@ -0,0 +1,150 @@
+// BlurHash (https://blurha.sh): a short string describing a blurred version
+// of an image, drawn as a placeholder while the real preview loads. Encoding
+// runs in the media worker; decoding is cheap enough for the main thread.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+const encode83 = (value: number, length: number) => {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    result += DIGITS[Math.floor(value / Math.pow(83, length - i)) % 83];
+  }
+  return result;
+};
+
+const decode83 = (text: string) => {
+  let value = 0;
+  for (const char of text) value = value * 83 + DIGITS.indexOf(char);
+  return value;
+};
+
+const sRGBToLinear = (value: number) => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const linearToSRGB = (value: number) => {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255 + 0.5)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+};
+
+const signPow = (value: number, exponent: number) => Math.sign(value) * Math.pow(Math.abs(value), exponent);
+
+// `pixels` is RGBA, as from getImageData. Keep the image small (~32px); the
+// cost is pixels × components.
+export function encodeBlurhash(pixels: Uint8ClampedArray, width: number, height: number, componentsX = 4, componentsY = 3) {
+  const factors: number[][] = [];
+  for (let y = 0; y < componentsY; y++) {
+    for (let x = 0; x < componentsX; x++) {
+      const normalisation = x === 0 && y === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+          const basis = normalisation * Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const index = 4 * (i + j * width);
+          r += basis * sRGBToLinear(pixels[index]);
+          g += basis * sRGBToLinear(pixels[index + 1]);
+          b += basis * sRGBToLinear(pixels[index + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.flat().map(Math.abs));
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encode83(quantisedMaximum, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+
+  hash += encode83((linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]), 4);
+
+  const quantise = (value: number) =>
+    Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)));
+  for (const [r, g, b] of ac) {
+    hash += encode83(quantise(r) * 19 * 19 + quantise(g) * 19 + quantise(b), 2);
+  }
+  return hash;
+}
+
+export const isValidBlurhash = (hash: unknown): hash is string => {
+  if (typeof hash !== 'string' || hash.length < 6) return false;
+  const sizeFlag = decode83(hash[0]);
+  return hash.length === 4 + 2 * ((sizeFlag % 9) + 1) * (Math.floor(sizeFlag / 9) + 1);
+};
+
+export function decodeBlurhash(hash: string, width: number, height: number) {
+  const sizeFlag = decode83(hash[0]);
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+  const maximumValue = (decode83(hash[1]) + 1) / 166;
+
+  const colors = Array.from({ length: componentsX * componentsY }, (_, index) => {
+    if (index === 0) {
+      const value = decode83(hash.substring(2, 6));
+      return [sRGBToLinear(value >> 16), sRGBToLinear((value >> 8) & 255), sRGBToLinear(value & 255)];
+    }
+    const value = decode83(hash.substring(4 + index * 2, 6 + index * 2));
+    return [
+      signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+      signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+      signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+    ];
+  });
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const color = colors[i + j * componentsX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const index = 4 * (x + y * width);
+      pixels[index] = linearToSRGB(r);
+      pixels[index + 1] = linearToSRGB(g);
+      pixels[index + 2] = linearToSRGB(b);
+      pixels[index + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+const dataUrls = new Map<string, string>();
+
+// A tiny image of the hash, stretched by CSS; the blur hides the scaling
+export function blurhashToDataUrl(hash: string) {
+  const cached = dataUrls.get(hash);
+  if (cached) return cached;
+
+  const size = 32;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) return undefined;
+  context.putImageData(new ImageData(decodeBlurhash(hash, size, size), size, size), 0, 0);
+
+  const url = canvas.toDataURL();
+  dataUrls.set(hash, url);
+  return url;
+}
@@ -0,0 +1,179 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CallType } from '@/utils/callSession';
+import type { CallTransportMode } from '@/utils/callTransport';
+
+// The per-room `call-${chatRoomId}` Realtime channel. Broadcasts carry call
+// signaling (SDP/ICE, mute state, screen share, ...) and presence tracks who
+// is currently in the call. The chat header watches presence to offer
+// "Join call" while WebRTCCall uses the same channel for the call itself, and
+// supabase.channel() hands out one instance per topic, so the channel is
+// reference counted and every listener goes through a fan-out.
+
+// What each member tracks in presence; enough for someone else to join
+export type CallMember = {
+  userId: string;
+  joinedAt: number;
+  callId: string;
+  chatRoomId: string;
+  callType: CallType;
+  transport: CallTransportMode;
+  from: string; // the caller
+  participants: string[];
+};
+
+type BroadcastListener = (payload: unknown) => void;
+type MembersListener = (members: CallMember[]) => void;
+
+type SharedCallChannel = {
+  channel: ReturnType<typeof supabase.channel> | null;
+  refs: number;
+  broadcastListeners: Map<string, Set<BroadcastListener>>;
+  membersListeners: Set<MembersListener>;
+  members: CallMember[];
+  tracked: CallMember | null;
+  created: Promise<void>;
+  subscribed: Promise<void>;
+};
+
+export interface CallChannel {
+  readonly chatRoomId: string;
+  subscribed: Promise<void>;
+  on: <T>(event: string, listener: (payload: T) => void) => void;
+  send: (event: string, payload: Record<string, unknown>) => Promise<void>;
+  onMembersChange: (listener: MembersListener) => void;
+  getMembers: () => CallMember[];
+  // Enter/leave the call's presence
+  join: (member: CallMember) => Promise<void>;
+  leave: () => Promise<void>;
+  release: () => void;
+}
+
+const channels = new Map<string, SharedCallChannel>();
+// Removing a channel is async and supabase.channel() would hand back the
+// closing instance, so a new one for the same room waits for the old one
+const removals = new Map<string, Promise<unknown>>();
+
+// One entry per user even if they have the call open on two connections
+const readMembers = (state: Record<string, CallMember[]>) => {
+  const members = new Map<string, CallMember>();
+  Object.values(state).flat().forEach(member => {
+    if (member.userId && !members.has(member.userId)) members.set(member.userId, member);
+  });
+  return Array.from(members.values());
+};
+
+function getSharedChannel(chatRoomId: string) {
+  const existing = channels.get(chatRoomId);
+  if (existing) return existing;
+
+  const shared: SharedCallChannel = {
+    channel: null,
+    refs: 0,
+    broadcastListeners: new Map(),
+    membersListeners: new Set(),
+    members: [],
+    tracked: null,
+    created: Promise.resolve(),
+    subscribed: Promise.resolve(),
+  };
+
+  let resolveSubscribed: () => void;
+  shared.subscribed = new Promise(resolve => {
+    resolveSubscribed = resolve;
+  });
+
+  const create = () => {
+    const channel = supabase.channel(`call-${chatRoomId}`)
+      .on('broadcast', { event: '*' }, ({ event, payload }) => {
+        shared.broadcastListeners.get(event)?.forEach(listener => listener(payload));
+      })
+      .on('presence', { event: 'sync' }, () => {
+        shared.members = readMembers(channel.presenceState<CallMember>());
+        shared.membersListeners.forEach(listener => listener(shared.members));
+      });
+    shared.channel = channel;
+
+    channel.subscribe(status => {
+      if (status !== 'SUBSCRIBED') return;
+      // Presence doesn't survive a reconnect on its own
+      if (shared.tracked) {
+        channel.track(shared.tracked).catch(error => {
+          console.error('Failed to rejoin call presence:', error);
+        });
+      }
+      resolveSubscribed();
+    });
+  };
+
+  shared.created = (removals.get(chatRoomId) ?? Promise.resolve()).then(create);
+
+  channels.set(chatRoomId, shared);
+  return shared;
+}
+
+export function acquireCallChannel(chatRoomId: string): CallChannel {
+  const shared = getSharedChannel(chatRoomId);
+  shared.refs++;
+
+  // Listeners registered through this handle, removed on release
+  const ownBroadcastListeners: [string, BroadcastListener][] = [];
+  const ownMembersListeners: MembersListener[] = [];
+  let ownsPresence = false;
+  let released = false;
+
+  const leave = async () => {
+    if (!ownsPresence) return;
+    ownsPresence = false;
+    shared.tracked = null;
+    await shared.channel?.untrack();
+  };
+
+  return {
+    chatRoomId,
+    subscribed: shared.subscribed,
+    on: (event, listener) => {
+      const wrapped = listener as BroadcastListener;
+      const listeners = shared.broadcastListeners.get(event) ?? new Set();
+      listeners.add(wrapped);
+      shared.broadcastListeners.set(event, listeners);
+      ownBroadcastListeners.push([event, wrapped]);
+    },
+    // Before the channel has joined this goes out over REST
+    send: async (event, payload) => {
+      await shared.created;
+      await shared.channel?.send({ type: 'broadcast', event, payload });
+    },
+    onMembersChange: (listener) => {
+      shared.membersListeners.add(listener);
+      ownMembersListeners.push(listener);
+      listener(shared.members);
+    },
+    getMembers: () => shared.members,
+    join: async (member) => {
+      ownsPresence = true;
+      shared.tracked = member;
+      await shared.subscribed;
+      await shared.channel?.track(member);
+    },
+    leave,
+    release: () => {
+      if (released) return;
+      released = true;
+
+      ownBroadcastListeners.forEach(([event, listener]) => shared.broadcastListeners.get(event)?.delete(listener));
+      ownMembersListeners.forEach(listener => shared.membersListeners.delete(listener));
+      leave().catch(error => console.error('Failed to leave call presence:', error));
+
+      shared.refs--;
+      if (shared.refs === 0) {
+        channels.delete(chatRoomId);
+        const removal = shared.created
+          .then(() => shared.channel && supabase.removeChannel(shared.channel))
+          .finally(() => {
+            if (removals.get(chatRoomId) === removal) removals.delete(chatRoomId);
+          });
+        removals.set(chatRoomId, removal);
+      }
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CallSession, CallType } from '@/utils/callSession';
+
+export type CallOutcome = 'ringing' | 'completed' | 'missed' | 'declined' | 'busy' | 'cancelled' | 'failed';
+
+export type CallRecord = {
+  id: string;
+  chat_room_id: string;
+  caller_id: string;
+  participants: string[];
+  call_type: CallType;
+  outcome: CallOutcome;
+  started_at: string;
+  answered_at: string | null;
+  ended_at: string | null;
+  duration_seconds: number | null;
+};
+
+export type CallHistoryFilter = 'all' | 'missed' | 'incoming' | 'outgoing';
+
+// Outcome of a finished session as seen from the caller's side
+export const getCallOutcome = (session: CallSession): CallOutcome => {
+  if (session.answeredAt) return 'completed';
+
+  switch (session.endReason) {
+    case 'timeout':
+      return 'missed';
+    case 'declined':
+      return 'declined';
+    case 'busy':
+      return 'busy';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'cancelled';
+  }
+};
+
+export const getCallDurationSeconds = (session: CallSession) =>
+  session.answeredAt && session.endedAt
+    ? Math.max(0, Math.round((session.endedAt - session.answeredAt) / 1000))
+    : null;
+
+export const formatCallDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (minutes >= 60) {
+    return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}:${String(rest).padStart(2, '0')}`;
+  }
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+};
+
+export const isIncomingCall = (call: CallRecord, userId: string) => call.caller_id !== userId;
+
+// An incoming call this user never picked up or turned down
+export const isMissedCall = (call: CallRecord, userId: string) =>
+  isIncomingCall(call, userId) && !call.answered_at && call.outcome !== 'declined' && call.outcome !== 'ringing';
+
+export const matchesCallFilter = (call: CallRecord, userId: string, filter: CallHistoryFilter) => {
+  switch (filter) {
+    case 'missed':
+      return isMissedCall(call, userId);
+    case 'incoming':
+      return isIncomingCall(call, userId);
+    case 'outgoing':
+      return !isIncomingCall(call, userId);
+    default:
+      return true;
+  }
+};
+
+export async function createCallRecord(session: CallSession) {
+  const { data, error } = await supabase
+    .from('calls')
+    .insert({
+      id: session.callId,
+      chat_room_id: session.chatRoomId,
+      caller_id: session.from,
+      participants: session.participants,
+      call_type: session.callType,
+      started_at: new Date(session.startedAt).toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Failed to create call record', error);
+    return null;
+  }
+  return data.id;
+}
+
+export async function finishCallRecord(callId: string, session: CallSession) {
+  const { error } = await supabase
+    .from('calls')
+    .update({
+      outcome: getCallOutcome(session),
+      answered_at: session.answeredAt ? new Date(session.answeredAt).toISOString() : null,
+      ended_at: new Date(session.endedAt ?? Date.now()).toISOString(),
+      duration_seconds: getCallDurationSeconds(session),
+    })
+    .eq('id', callId);
+
+  if (error) {
+    console.error('Failed to finish call record', error);
+  }
+}
+
+// Leaves a call message in the room: "missed" for unanswered calls,
+// otherwise the formatted duration of the call
+export async function recordCallMessage(session: CallSession) {
+  const outcome = getCallOutcome(session);
+  if (outcome !== 'completed' && outcome !== 'missed') return;
+
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      chat_room_id: session.chatRoomId,
+      sender_id: session.from,
+      content: outcome === 'missed' ? 'missed' : formatCallDuration(getCallDurationSeconds(session) ?? 0),
+      message_type: session.callType === 'video' ? 'video_call' : 'voice_call',
+    });
+
+  if (error) {
+    console.error('Failed to record call message', error);
+  }
+}
+
+export async function fetchCallHistory(limit = 100) {
+  const { data, error } = await supabase
+    .from('calls')
+    .select('*')
+    .neq('outcome', 'ringing')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as CallRecord[];
+}
@@ -0,0 +1,187 @@
+import { supabase } from '@/integrations/supabase/client';
+import { buildChatFilePath, CHAT_FILES_BUCKET } from '@/utils/chatFiles';
+import { uploadResumable } from '@/utils/tusUpload';
+
+// Local call recording. Everyone's audio is mixed through WebAudio into one
+// track; for video recordings each participant's video is drawn into a grid
+// on a canvas whose captured stream supplies the video track. MediaRecorder
+// encodes the result in the browser and the file is posted to the room.
+
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+const VIDEO_FPS = 15;
+// Recorder timeslice; keeps memory bounded and loses little if the tab dies
+const CHUNK_MS = 1000;
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export const isCallRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof AudioContext !== 'undefined';
+
+const pickMimeType = (candidates: string[]) =>
+  candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+type RecordedParticipant = {
+  label: string;
+  audioTrack?: MediaStreamTrack;
+  audioSource?: MediaStreamAudioSourceNode;
+  video?: HTMLVideoElement;
+};
+
+export type CallRecording = {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+};
+
+export function createCallRecorder({ includeVideo }: { includeVideo: boolean }) {
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+  const participants = new Map<string, RecordedParticipant>();
+
+  let canvas: HTMLCanvasElement | null = null;
+  let drawTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Cover-fit each participant's video into a grid cell, with their name
+  const drawFrame = () => {
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = '#111';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const entries = Array.from(participants.values());
+    const columns = Math.ceil(Math.sqrt(entries.length)) || 1;
+    const rows = Math.ceil(entries.length / columns) || 1;
+    const cellWidth = canvas.width / columns;
+    const cellHeight = canvas.height / rows;
+
+    entries.forEach((participant, index) => {
+      const x = (index % columns) * cellWidth;
+      const y = Math.floor(index / columns) * cellHeight;
+      const video = participant.video;
+
+      if (video && video.videoWidth > 0) {
+        const scale = Math.max(cellWidth / video.videoWidth, cellHeight / video.videoHeight);
+        const width = video.videoWidth * scale;
+        const height = video.videoHeight * scale;
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(x, y, cellWidth, cellHeight);
+        ctx.clip();
+        ctx.drawImage(video, x + (cellWidth - width) / 2, y + (cellHeight - height) / 2, width, height);
+        ctx.restore();
+      }
+
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      ctx.fillRect(x + 8, y + cellHeight - 36, Math.min(cellWidth - 16, participant.label.length * 11 + 16), 28);
+      ctx.fillStyle = '#fff';
+      ctx.font = '18px sans-serif';
+      ctx.fillText(participant.label, x + 16, y + cellHeight - 16, cellWidth - 32);
+    });
+  };
+
+  if (includeVideo) {
+    canvas = document.createElement('canvas');
+    canvas.width = VIDEO_WIDTH;
+    canvas.height = VIDEO_HEIGHT;
+    // Timers keep running in background tabs, unlike requestAnimationFrame
+    drawTimer = setInterval(drawFrame, 1000 / VIDEO_FPS);
+  }
+
+  const tracks = [...destination.stream.getAudioTracks()];
+  if (canvas) tracks.push(...canvas.captureStream(VIDEO_FPS).getVideoTracks());
+  const mimeType = pickMimeType(includeVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES);
+  const recorder = new MediaRecorder(new MediaStream(tracks), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const startedAt = Date.now();
+
+  const remove = (id: string) => {
+    const participant = participants.get(id);
+    if (!participant) return;
+
+    participant.audioSource?.disconnect();
+    if (participant.video) participant.video.srcObject = null;
+    participants.delete(id);
+  };
+
+  return {
+    start: () => {
+      if (context.state === 'suspended') context.resume().catch(() => {});
+      recorder.start(CHUNK_MS);
+    },
+    // Safe to call repeatedly, e.g. after a device switch swapped the track
+    add: (id: string, stream: MediaStream, label: string) => {
+      const participant = participants.get(id) ?? { label };
+      participant.label = label;
+
+      const [audioTrack] = stream.getAudioTracks();
+      if (audioTrack !== participant.audioTrack) {
+        participant.audioSource?.disconnect();
+        participant.audioSource = undefined;
+        participant.audioTrack = audioTrack;
+        if (audioTrack) {
+          participant.audioSource = context.createMediaStreamSource(new MediaStream([audioTrack]));
+          participant.audioSource.connect(destination);
+        }
+      }
+
+      if (includeVideo) {
+        participant.video ??= Object.assign(document.createElement('video'), { muted: true, playsInline: true });
+        if (participant.video.srcObject !== stream) {
+          participant.video.srcObject = stream;
+          participant.video.play().catch(() => {});
+        }
+      }
+
+      participants.set(id, participant);
+    },
+    remove,
+    stop: () => new Promise<CallRecording>((resolve) => {
+      const finish = () => {
+        if (drawTimer) clearInterval(drawTimer);
+        Array.from(participants.keys()).forEach(remove);
+        tracks.forEach(track => track.stop());
+        context.close().catch(() => {});
+        resolve({
+          blob: new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' }),
+          mimeType: recorder.mimeType || mimeType,
+          durationMs: Date.now() - startedAt,
+        });
+      };
+
+      if (recorder.state === 'inactive') {
+        finish();
+      } else {
+        recorder.onstop = finish;
+        recorder.stop();
+      }
+    }),
+  };
+}
+
+export type CallRecorder = ReturnType<typeof createCallRecorder>;
+
+// Uploads the recording to the chat-files bucket and posts it to the room.
+// Recordings get big, so the upload is resumable rather than one request.
+export async function shareCallRecording(recording: CallRecording, chatRoomId: string, userId: string) {
+  const extension = recording.mimeType.includes('mp4') ? 'mp4' : 'webm';
+  const path = buildChatFilePath(chatRoomId, userId, `call-recording-${Date.now()}.${extension}`);
+  await uploadResumable({ bucket: CHAT_FILES_BUCKET, path, file: recording.blob, contentType: recording.blob.type });
+
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      chat_room_id: chatRoomId,
+      sender_id: userId,
+      content: 'Call recording',
+      message_type: 'call_recording',
+      metadata: { path, mime_type: recording.mimeType, duration_ms: recording.durationMs },
+    });
+  if (error) throw error;
+}
@@ -0,0 +1,168 @@
+import type { CallTransportMode } from '@/utils/callTransport';
+
+// Call session state machine shared by the caller and callee sides.
+//
+// idle → dialing → ringing → connecting → active → ended
+//
+// The caller dials (invite is being sent), then rings until someone accepts,
+// declines, reports busy or the ring timeout fires. The callee starts in
+// ringing as soon as an invite arrives. Joining a call that's already going
+// on skips the ring and goes straight to connecting.
+
+export type CallType = 'voice' | 'video';
+
+export type CallDirection = 'outgoing' | 'incoming';
+
+export type CallPhase = 'idle' | 'dialing' | 'ringing' | 'connecting' | 'active' | 'ended';
+
+export type CallEndReason =
+  | 'hangup'         // we hung up
+  | 'remote-hangup'  // the other side hung up
+  | 'declined'       // callee declined the invite
+  | 'busy'           // callee is already in another call
+  | 'timeout'        // nobody answered before the ring timeout
+  | 'cancelled'      // caller cancelled before we answered
+  | 'missed'         // we did not answer before the ring timeout
+  | 'failed';        // media or connection failure
+
+export type CallSession = {
+  callId: string; // shared by everyone in the call; id of the caller's `calls` row
+  phase: CallPhase;
+  direction: CallDirection;
+  chatRoomId: string;
+  callType: CallType;
+  from: string; // caller user id
+  participants: string[]; // all participants including caller
+  transport: CallTransportMode;
+  startedAt: number;
+  answeredAt?: number;
+  endedAt?: number;
+  endReason?: CallEndReason;
+};
+
+export type CallSessionState = CallSession | null;
+
+export type CallSessionEvent =
+  | { type: 'DIAL'; callId: string; chatRoomId: string; callType: CallType; from: string; participants: string[]; transport: CallTransportMode }
+  | { type: 'INVITE_SENT' }
+  | { type: 'INCOMING'; callId: string; chatRoomId: string; callType: CallType; from: string; participants: string[]; transport: CallTransportMode }
+  | { type: 'JOIN'; callId: string; chatRoomId: string; callType: CallType; from: string; participants: string[]; transport: CallTransportMode }
+  | { type: 'ACCEPT' }
+  | { type: 'CONNECTED' }
+  | { type: 'END'; reason: CallEndReason }
+  | { type: 'RESET' };
+
+// How long an invite rings before it is treated as unanswered
+export const RING_TIMEOUT_MS = 30_000;
+
+// Phases in which the user is considered to be "in a call"
+export const isCallInProgress = (state: CallSessionState) =>
+  !!state && state.phase !== 'idle' && state.phase !== 'ended';
+
+export function callSessionReducer(state: CallSessionState, event: CallSessionEvent): CallSessionState {
+  switch (event.type) {
+    case 'DIAL':
+      if (isCallInProgress(state)) return state;
+      return {
+        callId: event.callId,
+        phase: 'dialing',
+        direction: 'outgoing',
+        chatRoomId: event.chatRoomId,
+        callType: event.callType,
+        from: event.from,
+        participants: event.participants,
+        transport: event.transport,
+        startedAt: Date.now(),
+      };
+
+    case 'INCOMING':
+      if (isCallInProgress(state)) return state;
+      return {
+        callId: event.callId,
+        phase: 'ringing',
+        direction: 'incoming',
+        chatRoomId: event.chatRoomId,
+        callType: event.callType,
+        from: event.from,
+        participants: event.participants,
+        transport: event.transport,
+        startedAt: Date.now(),
+      };
+
+    case 'JOIN': {
+      if (isCallInProgress(state)) return state;
+      const now = Date.now();
+      return {
+        callId: event.callId,
+        phase: 'connecting',
+        direction: 'incoming',
+        chatRoomId: event.chatRoomId,
+        callType: event.callType,
+        from: event.from,
+        participants: event.participants,
+        transport: event.transport,
+        startedAt: now,
+        answeredAt: now,
+      };
+    }
+
+    case 'INVITE_SENT':
+      if (state?.phase !== 'dialing') return state;
+      return { ...state, phase: 'ringing' };
+
+    case 'ACCEPT':
+      if (state?.phase !== 'ringing' && state?.phase !== 'dialing') return state;
+      return { ...state, phase: 'connecting', answeredAt: Date.now() };
+
+    case 'CONNECTED':
+      // Media can connect before the caller sees the accept signal
+      if (!isCallInProgress(state) || state.phase === 'active') return state;
+      return { ...state, phase: 'active', answeredAt: state.answeredAt ?? Date.now() };
+
+    case 'END':
+      if (!isCallInProgress(state)) return state;
+      return { ...state, phase: 'ended', endedAt: Date.now(), endReason: event.reason };
+
+    case 'RESET':
+      return null;
+
+    default:
+      return state;
+  }
+}
+
+export const describeCallPhase = (phase: CallPhase, direction: CallDirection, endReason?: CallEndReason): string => {
+  switch (phase) {
+    case 'dialing':
+      return 'Calling…';
+    case 'ringing':
+      return direction === 'outgoing' ? 'Ringing…' : 'Incoming call';
+    case 'connecting':
+      return 'Connecting…';
+    case 'active':
+      return 'Connected';
+    case 'ended':
+      return describeCallEndReason(endReason);
+    default:
+      return '';
+  }
+};
+
+export const describeCallEndReason = (reason?: CallEndReason): string => {
+  switch (reason) {
+    case 'declined':
+      return 'Call declined';
+    case 'busy':
+      return 'User is busy';
+    case 'timeout':
+      return 'No answer';
+    case 'missed':
+      return 'Missed call';
+    case 'cancelled':
+      return 'Call cancelled';
+    case 'failed':
+      return 'Call failed';
+    default:
+      return 'Call ended';
+  }
+};
@@ -1,11 +1,37 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { CallType } from '@/utils/callSession';
+import type { CallTransportMode } from '@/utils/callTransport';
 
 let invitesChannel: ReturnType<typeof supabase.channel> | null = null;
 let subscribed = false;
 
+export type CallSignalEvent = 'incoming-call' | 'call-cancelled' | 'call-accepted' | 'call-declined';
+
+export type CallSignalPayload = {
+  callId?: string;
+  chatRoomId: string;
+  from: string;
+  to: string;
+  callType?: CallType;
+  participants?: string[];
+  transport?: CallTransportMode;
+  reason?: CallDeclineReason | CallCancelReason;
+};
+
+type CallSignalListener = (event: CallSignalEvent, payload: CallSignalPayload) => void;
+
+const CALL_SIGNAL_EVENTS: CallSignalEvent[] = ['incoming-call', 'call-cancelled', 'call-accepted', 'call-declined'];
+const listeners = new Set<CallSignalListener>();
+
 async function getInvitesChannel() {
   if (!invitesChannel) {
     invitesChannel = supabase.channel('call-invites');
+    // Bind once and fan out, so senders and listeners can share the channel
+    CALL_SIGNAL_EVENTS.forEach(event => {
+      invitesChannel!.on('broadcast', { event }, ({ payload }) => {
+        listeners.forEach(listener => listener(event, payload as CallSignalPayload));
+      });
+    });
   }
   if (!subscribed) {
     await invitesChannel.subscribe();
@@ -15,24 +41,43 @@ async function getInvitesChannel() {
 }
 
 export type CallInvitePayload = {
+  callId: string;
   chatRoomId: string;
-  callType: 'voice' | 'video';
+  callType: CallType;
   from: string; // user id
   participants: string[]; // all participants including caller
+  transport: CallTransportMode;
   timestamp?: string;
 };
 
-export async function sendCallInvite(recipients: string[], payload: CallInvitePayload) {
+export type CallDeclineReason = 'declined' | 'busy';
+
+export type CallCancelReason = 'cancelled' | 'timeout';
+
+async function broadcast(event: CallSignalEvent, recipients: string[], payload: Record<string, unknown>) {
   const channel = await getInvitesChannel();
+  for (const to of recipients) {
+    await channel.send({
+      type: 'broadcast',
+      event,
+      payload: { ...payload, to },
+    });
+  }
+}
+
+// Registers a listener for every call signal addressed to anyone; callers
+// filter on `payload.to`. Returns an unsubscribe function.
+export async function listenForCallSignals(listener: CallSignalListener) {
+  listeners.add(listener);
+  await getInvitesChannel();
+  return () => {
+    listeners.delete(listener);
+  };
+}
 
+export async function sendCallInvite(recipients: string[], payload: CallInvitePayload) {
   try {
-    for (const to of recipients) {
-      await channel.send({
-        type: 'broadcast',
-        event: 'incoming-call',
-        payload: { ...payload, to },
-      });
-    }
+    await broadcast('incoming-call', recipients, payload);
   } catch (e) {
     console.error('Failed to broadcast call invite', e);
   }
@@ -54,17 +99,36 @@ export async function sendCallInvite(recipients: string[], payload: CallInvitePa
   }
 }
 
-export async function sendCallCancelled(recipients: string[], chatRoomId: string, from: string) {
-  const channel = await getInvitesChannel();
+export async function sendCallCancelled(
+  recipients: string[],
+  chatRoomId: string,
+  from: string,
+  reason: CallCancelReason = 'cancelled'
+) {
   try {
-    for (const to of recipients) {
-      await channel.send({
-        type: 'broadcast',
-        event: 'call-cancelled',
-        payload: { chatRoomId, from, to },
-      });
-    }
+    await broadcast('call-cancelled', recipients, { chatRoomId, from, reason });
   } catch (e) {
     console.error('Failed to broadcast call cancellation', e);
   }
 }
+
+export async function sendCallAccepted(caller: string, chatRoomId: string, from: string) {
+  try {
+    await broadcast('call-accepted', [caller], { chatRoomId, from });
+  } catch (e) {
+    console.error('Failed to broadcast call acceptance', e);
+  }
+}
+
+export async function sendCallDeclined(
+  caller: string,
+  chatRoomId: string,
+  from: string,
+  reason: CallDeclineReason = 'declined'
+) {
+  try {
+    await broadcast('call-declined', [caller], { chatRoomId, from, reason });
+  } catch (e) {
+    console.error('Failed to broadcast call decline', e);
+  }
+}
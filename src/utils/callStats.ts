@@ -0,0 +1,249 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CallTransportMode } from '@/utils/callTransport';
+
+// Call quality telemetry. Every few seconds each peer connection's getStats()
+// report is reduced to a sample (RTT, jitter, loss, bitrate, candidate pair),
+// rated, and folded into a per-participant summary that is saved when we
+// leave the call.
+
+export type CallQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+export type ConnectionStatsSample = {
+  rttMs?: number;
+  jitterMs?: number;
+  packetLossPct?: number; // inbound, over the last interval
+  inboundKbps?: number;
+  outboundKbps?: number;
+  availableOutgoingKbps?: number; // the browser's bandwidth estimate
+  localCandidateType?: string; // host, srflx, prflx or relay
+  remoteCandidateType?: string;
+};
+
+type MetricSummary = { avg: number; max: number } | null;
+
+export type ParticipantStatsSummary = {
+  samples: number;
+  rttMs: MetricSummary;
+  jitterMs: MetricSummary;
+  packetLossPct: MetricSummary;
+  inboundKbps: MetricSummary;
+  outboundKbps: MetricSummary;
+  candidatePairs: string[]; // "local/remote" candidate types seen, e.g. "relay/srflx"
+  quality: Record<CallQuality, number>; // samples per rating
+};
+
+// Keyed by remote participant id
+export type CallStatsSummary = Record<string, ParticipantStatsSummary>;
+
+export const STATS_INTERVAL_MS = 2000;
+
+type StatsTotals = {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+};
+
+// Rough thresholds for conversational audio/video
+export function rateCallQuality(sample: ConnectionStatsSample): CallQuality {
+  const { rttMs, jitterMs, packetLossPct } = sample;
+  if (rttMs === undefined && jitterMs === undefined && packetLossPct === undefined) return 'unknown';
+
+  if ((rttMs ?? 0) > 400 || (packetLossPct ?? 0) > 5 || (jitterMs ?? 0) > 50) return 'poor';
+  if ((rttMs ?? 0) > 200 || (packetLossPct ?? 0) > 2 || (jitterMs ?? 0) > 30) return 'fair';
+  return 'good';
+}
+
+function readStatsReport(report: RTCStatsReport, previous?: StatsTotals) {
+  let pair: RTCIceCandidatePairStats | undefined;
+  report.forEach(stat => {
+    if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+      pair = report.get(stat.selectedCandidatePairId);
+    }
+  });
+  // Firefox has no transport stats; it flags the selected pair instead
+  if (!pair) {
+    report.forEach(stat => {
+      if (stat.type === 'candidate-pair' && (stat.selected || (stat.nominated && stat.state === 'succeeded'))) {
+        pair = stat;
+      }
+    });
+  }
+
+  const totals: StatsTotals = { timestamp: Date.now(), bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 };
+  let jitterMs: number | undefined;
+  report.forEach(stat => {
+    if (stat.type === 'inbound-rtp') {
+      totals.bytesReceived += stat.bytesReceived ?? 0;
+      totals.packetsReceived += stat.packetsReceived ?? 0;
+      totals.packetsLost += stat.packetsLost ?? 0;
+      if (stat.jitter !== undefined) jitterMs = Math.max(jitterMs ?? 0, stat.jitter * 1000);
+    } else if (stat.type === 'outbound-rtp') {
+      totals.bytesSent += stat.bytesSent ?? 0;
+    }
+  });
+
+  const sample: ConnectionStatsSample = {
+    rttMs: pair?.currentRoundTripTime !== undefined ? pair.currentRoundTripTime * 1000 : undefined,
+    jitterMs,
+    availableOutgoingKbps: pair?.availableOutgoingBitrate !== undefined ? pair.availableOutgoingBitrate / 1000 : undefined,
+    localCandidateType: pair ? report.get(pair.localCandidateId)?.candidateType : undefined,
+    remoteCandidateType: pair ? report.get(pair.remoteCandidateId)?.candidateType : undefined,
+  };
+
+  if (previous) {
+    const seconds = (totals.timestamp - previous.timestamp) / 1000;
+    const received = totals.packetsReceived - previous.packetsReceived;
+    const lost = totals.packetsLost - previous.packetsLost;
+
+    if (seconds > 0) {
+      sample.inboundKbps = ((totals.bytesReceived - previous.bytesReceived) * 8) / 1000 / seconds;
+      sample.outboundKbps = ((totals.bytesSent - previous.bytesSent) * 8) / 1000 / seconds;
+    }
+    if (received + lost > 0) {
+      sample.packetLossPct = (Math.max(0, lost) / (received + lost)) * 100;
+    }
+  }
+
+  return { sample, totals };
+}
+
+type Metric = { count: number; sum: number; max: number };
+
+type Accumulator = {
+  samples: number;
+  metrics: Record<'rttMs' | 'jitterMs' | 'packetLossPct' | 'inboundKbps' | 'outboundKbps', Metric>;
+  candidatePairs: Set<string>;
+  quality: Record<CallQuality, number>;
+};
+
+const createAccumulator = (): Accumulator => ({
+  samples: 0,
+  metrics: {
+    rttMs: { count: 0, sum: 0, max: 0 },
+    jitterMs: { count: 0, sum: 0, max: 0 },
+    packetLossPct: { count: 0, sum: 0, max: 0 },
+    inboundKbps: { count: 0, sum: 0, max: 0 },
+    outboundKbps: { count: 0, sum: 0, max: 0 },
+  },
+  candidatePairs: new Set(),
+  quality: { good: 0, fair: 0, poor: 0, unknown: 0 },
+});
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const summarizeMetric = ({ count, sum, max }: Metric): MetricSummary =>
+  count > 0 ? { avg: round(sum / count), max: round(max) } : null;
+
+export function createCallStatsCollector(
+  // Remote participant → the peer connection carrying their media. Several
+  // participants can share one connection (SFU); it is only sampled once.
+  getConnections: () => Map<string, RTCPeerConnection>,
+  onSample: (participantId: string, sample: ConnectionStatsSample, quality: CallQuality) => void,
+  // Called once per connection per interval, e.g. for bandwidth adaptation
+  onConnectionSample?: (pc: RTCPeerConnection, sample: ConnectionStatsSample) => void
+) {
+  const totals = new WeakMap<RTCPeerConnection, StatsTotals>();
+  const accumulators = new Map<string, Accumulator>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const record = (participantId: string, sample: ConnectionStatsSample, quality: CallQuality) => {
+    const accumulator = accumulators.get(participantId) ?? createAccumulator();
+    accumulators.set(participantId, accumulator);
+
+    accumulator.samples++;
+    accumulator.quality[quality]++;
+    (Object.keys(accumulator.metrics) as (keyof Accumulator['metrics'])[]).forEach(key => {
+      const value = sample[key];
+      if (value === undefined) return;
+      const metric = accumulator.metrics[key];
+      metric.count++;
+      metric.sum += value;
+      metric.max = Math.max(metric.max, value);
+    });
+    if (sample.localCandidateType && sample.remoteCandidateType) {
+      accumulator.candidatePairs.add(`${sample.localCandidateType}/${sample.remoteCandidateType}`);
+    }
+  };
+
+  const collect = async () => {
+    const samples = new Map<RTCPeerConnection, Promise<ConnectionStatsSample | null>>();
+    const sampleConnection = async (pc: RTCPeerConnection) => {
+      if (pc.connectionState === 'closed') return null;
+      const { sample, totals: next } = readStatsReport(await pc.getStats(), totals.get(pc));
+      totals.set(pc, next);
+      onConnectionSample?.(pc, sample);
+      return sample;
+    };
+
+    await Promise.all(Array.from(getConnections(), async ([participantId, pc]) => {
+      if (!samples.has(pc)) samples.set(pc, sampleConnection(pc));
+      try {
+        const sample = await samples.get(pc);
+        if (!sample) return;
+        const quality = rateCallQuality(sample);
+        record(participantId, sample, quality);
+        onSample(participantId, sample, quality);
+      } catch (error) {
+        console.warn('Failed to collect call stats', error);
+      }
+    }));
+  };
+
+  return {
+    start: () => {
+      if (!timer) timer = setInterval(collect, STATS_INTERVAL_MS);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    summarize: (): CallStatsSummary => {
+      const summary: CallStatsSummary = {};
+      accumulators.forEach((accumulator, participantId) => {
+        summary[participantId] = {
+          samples: accumulator.samples,
+          rttMs: summarizeMetric(accumulator.metrics.rttMs),
+          jitterMs: summarizeMetric(accumulator.metrics.jitterMs),
+          packetLossPct: summarizeMetric(accumulator.metrics.packetLossPct),
+          inboundKbps: summarizeMetric(accumulator.metrics.inboundKbps),
+          outboundKbps: summarizeMetric(accumulator.metrics.outboundKbps),
+          candidatePairs: Array.from(accumulator.candidatePairs),
+          quality: { ...accumulator.quality },
+        };
+      });
+      return summary;
+    },
+  };
+}
+
+export type CallStatsCollector = ReturnType<typeof createCallStatsCollector>;
+
+export async function saveCallQualityReport(report: {
+  callId: string;
+  chatRoomId: string;
+  userId: string;
+  transport: CallTransportMode;
+  startedAt: number;
+  endedAt: number;
+  summary: CallStatsSummary;
+}) {
+  if (Object.keys(report.summary).length === 0) return;
+
+  const { error } = await supabase
+    .from('call_quality_reports')
+    .insert({
+      call_id: report.callId,
+      chat_room_id: report.chatRoomId,
+      user_id: report.userId,
+      transport: report.transport,
+      started_at: new Date(report.startedAt).toISOString(),
+      ended_at: new Date(report.endedAt).toISOString(),
+      summary: report.summary,
+    });
+
+  if (error) {
+    console.error('Failed to save call quality report', error);
+  }
+}
@@ -0,0 +1,43 @@
+import type { CallChannel } from '@/utils/callChannel';
+import { createMeshTransport } from '@/utils/meshTransport';
+import { createSfuTransport, isSfuConfigured } from '@/utils/sfuTransport';
+
+// How media flows between call participants:
+//   mesh - one RTCPeerConnection per remote participant (fine for small calls)
+//   sfu  - a single RTCPeerConnection to a selective forwarding unit
+export type CallTransportMode = 'mesh' | 'sfu';
+
+// Above this many participants the mesh uplink cost gets too high
+export const MESH_MAX_PARTICIPANTS = 4;
+
+export interface CallTransportOptions {
+  chatRoomId: string;
+  userId: string;
+  participants: string[]; // all participants including us
+  localStream: MediaStream;
+  rtcConfig: RTCConfiguration;
+  refreshRtcConfig?: () => Promise<RTCConfiguration>;
+  channel: CallChannel;
+  onRemoteStream: (participantId: string, stream: MediaStream) => void;
+  onRemoteLeft: (participantId: string) => void;
+  onConnected: () => void;
+}
+
+export interface CallTransport {
+  readonly mode: CallTransportMode;
+  // Called once we've joined the call channel's presence
+  start: () => Promise<void>;
+  // Every peer connection carrying our media
+  getPeerConnections: () => RTCPeerConnection[];
+  // Remote participant → the peer connection their media arrives on
+  getParticipantConnections: () => Map<string, RTCPeerConnection>;
+  // Publish a screen capture in place of the camera (null to stop sharing)
+  setScreenShare: (screen: MediaStream | null) => Promise<void>;
+  close: () => void;
+}
+
+export const pickTransportMode = (participantCount: number): CallTransportMode =>
+  participantCount > MESH_MAX_PARTICIPANTS && isSfuConfigured() ? 'sfu' : 'mesh';
+
+export const createCallTransport = (mode: CallTransportMode, options: CallTransportOptions): CallTransport =>
+  mode === 'sfu' ? createSfuTransport(options) : createMeshTransport(options);
@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Access to the private chat-files bucket. Files live under
+// <chatRoomId>/<userId>/ and are only ever read through signed URLs, which
+// are cached here and renewed shortly before they expire.
+
+export const CHAT_FILES_BUCKET = 'chat-files';
+
+const SIGNED_URL_TTL_S = 10 * 60;
+// Hand out a fresh URL once the cached one has less than this left, so a
+// media element that just got it can still load
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+type SignedUrl = { url: string; expiresAt: number };
+
+const signedUrls = new Map<string, SignedUrl>();
+const pending = new Map<string, Promise<SignedUrl>>();
+
+export const buildChatFilePath = (chatRoomId: string, userId: string, fileName: string) =>
+  `${chatRoomId}/${userId}/${fileName}`;
+
+// Messages sent while the bucket was public stored full public URLs
+export function resolveChatFilePath(pathOrUrl: string | undefined | null): string | null {
+  if (!pathOrUrl) return null;
+  const marker = `/object/public/${CHAT_FILES_BUCKET}/`;
+  const index = pathOrUrl.indexOf(marker);
+  if (index >= 0) return decodeURIComponent(pathOrUrl.slice(index + marker.length).split('?')[0]);
+  return /^https?:\/\//.test(pathOrUrl) ? null : pathOrUrl;
+}
+
+export async function uploadChatFile(path: string, file: Blob, contentType: string, { upsert = false } = {}) {
+  const { error } = await supabase.storage
+    .from(CHAT_FILES_BUCKET)
+    .upload(path, file, { contentType, upsert });
+  if (error) throw error;
+}
+
+// Only the uploader may remove a file
+export async function removeChatFiles(paths: string[]) {
+  if (paths.length === 0) return;
+  paths.forEach(path => signedUrls.delete(path));
+  const { error } = await supabase.storage
+    .from(CHAT_FILES_BUCKET)
+    .remove(paths);
+  if (error) throw error;
+}
+
+async function createSignedUrl(path: string): Promise<SignedUrl> {
+  const { data, error } = await supabase.storage
+    .from(CHAT_FILES_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_S);
+  if (error || !data) throw error ?? new Error('Could not sign file URL');
+
+  const signed = { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL_S * 1000 };
+  signedUrls.set(path, signed);
+  return signed;
+}
+
+// A signed URL for the file, reusing a cached one while it's still fresh.
+// `force` skips the cache, e.g. after the URL was rejected.
+export async function getSignedChatFileUrl(path: string, { force = false } = {}): Promise<SignedUrl> {
+  const cached = signedUrls.get(path);
+  if (!force && cached && cached.expiresAt - Date.now() > REFRESH_MARGIN_MS) return cached;
+
+  const inFlight = pending.get(path);
+  if (inFlight) return inFlight;
+
+  const request = createSignedUrl(path).finally(() => pending.delete(path));
+  pending.set(path, request);
+  return request;
+}
+
+// When to fetch a replacement for a URL that expires at `expiresAt`
+export const getSignedUrlRefreshDelay = (expiresAt: number) =>
+  Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS);
@@ -0,0 +1,157 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { MessageSender } from '@/utils/messages';
+
+// The signed in user's chat rooms, with participants and each room's latest
+// message, as shown in the chat list
+
+export interface ChatRoomData {
+  id: string;
+  name?: string;
+  is_group: boolean;
+  created_at: string;
+  participants: MessageSender[];
+  last_message?: {
+    id: string;
+    content: string;
+    created_at: string;
+    sender: MessageSender;
+    message_type?: string;
+    deleted_at?: string | null;
+  };
+}
+
+export const toLastMessage = (message: Tables<'messages'>, sender: MessageSender): ChatRoomData['last_message'] => ({
+  id: message.id,
+  content: message.content,
+  created_at: message.created_at,
+  message_type: message.message_type ?? undefined,
+  deleted_at: message.deleted_at,
+  sender,
+});
+
+export async function fetchChatRooms(userId: string): Promise<ChatRoomData[]> {
+  const { data: participantData, error: participantError } = await supabase
+    .from('chat_participants')
+    .select(`
+      chat_room_id,
+      chat_rooms!inner (
+        id,
+        name,
+        is_group,
+        created_at
+      )
+    `)
+    .eq('user_id', userId);
+  if (participantError) throw participantError;
+  if (!participantData || participantData.length === 0) return [];
+
+  const roomIds = participantData.map(p => p.chat_room_id);
+
+  const { data: participantsData, error: participantsError } = await supabase
+    .from('chat_participants')
+    .select('*')
+    .in('chat_room_id', roomIds);
+  if (participantsError) throw participantsError;
+
+  // One row per room, each using the (chat_room_id, created_at) index, rather
+  // than every message in every room
+  const latest = await Promise.all(roomIds.map(async (roomId) => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('chat_room_id', roomId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }));
+
+  const userIds = [...new Set([
+    ...(participantsData ?? []).map(p => p.user_id),
+    ...latest.flatMap(message => (message ? [message.sender_id] : [])),
+  ])];
+
+  const { data: allProfiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('*')
+    .in('user_id', userIds);
+  if (profilesError) throw profilesError;
+
+  const profileMap = new Map<string, MessageSender>();
+  allProfiles?.forEach(profile => profileMap.set(profile.user_id, profile));
+
+  const participantsByRoom: { [key: string]: MessageSender[] } = {};
+  participantsData?.forEach(p => {
+    const profile = profileMap.get(p.user_id);
+    if (!profile) return;
+    (participantsByRoom[p.chat_room_id] ??= []).push(profile);
+  });
+
+  const lastMessageByRoom: { [key: string]: ChatRoomData['last_message'] } = {};
+  latest.forEach(message => {
+    const sender = message && profileMap.get(message.sender_id);
+    if (!sender) return;
+    lastMessageByRoom[message.chat_room_id] = toLastMessage(message, sender);
+  });
+
+  return participantData.map(p => ({
+    id: p.chat_rooms.id,
+    name: p.chat_rooms.name,
+    is_group: p.chat_rooms.is_group,
+    created_at: p.chat_rooms.created_at,
+    participants: participantsByRoom[p.chat_room_id] || [],
+    last_message: lastMessageByRoom[p.chat_room_id],
+  }));
+}
+
+// The id of the direct chat between the two users, creating it if there isn't
+// one yet. `created` tells which.
+export async function openDirectChat(userId: string, otherUserId: string) {
+  const { data: existingRooms, error: checkError } = await supabase
+    .from('chat_participants')
+    .select(`
+      chat_room_id,
+      chat_rooms!inner (
+        id,
+        is_group
+      )
+    `)
+    .eq('user_id', userId);
+  if (checkError) throw checkError;
+
+  for (const room of existingRooms ?? []) {
+    if (room.chat_rooms.is_group) continue;
+    const { data: roomParticipants } = await supabase
+      .from('chat_participants')
+      .select('user_id')
+      .eq('chat_room_id', room.chat_room_id);
+
+    const participantIds = roomParticipants?.map(p => p.user_id) || [];
+    if (participantIds.includes(otherUserId) && participantIds.length === 2) {
+      return { roomId: room.chat_rooms.id, created: false };
+    }
+  }
+
+  const { data: newRoom, error: roomError } = await supabase
+    .from('chat_rooms')
+    .insert({
+      created_by: userId,
+      is_group: false
+    })
+    .select()
+    .single();
+  if (roomError) throw roomError;
+
+  const { error: participantError } = await supabase
+    .from('chat_participants')
+    .insert([
+      { chat_room_id: newRoom.id, user_id: userId },
+      { chat_room_id: newRoom.id, user_id: otherUserId }
+    ]);
+  if (participantError) throw participantError;
+
+  return { roomId: newRoom.id, created: true };
+}
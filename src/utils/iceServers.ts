@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// ICE server configuration for every RTCPeerConnection. Served by the
+// `get-ice-servers` Edge Function (short-lived TURN credentials), with a
+// STUN-only fallback when it cannot be reached.
+
+type IceServersResponse = {
+  iceServers: RTCIceServer[];
+  ttl: number;
+  expiresAt: number; // unix seconds
+};
+
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' }
+];
+
+const FORCE_RELAY_KEY = 'voicelink_force_relay';
+
+// Refresh credentials this long before they expire
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+let cached: { iceServers: RTCIceServer[]; expiresAt: number } | null = null;
+let inflight: Promise<RTCIceServer[]> | null = null;
+
+async function fetchIceServers(): Promise<RTCIceServer[]> {
+  const { data, error } = await supabase.functions.invoke<IceServersResponse>('get-ice-servers');
+  if (error || !data?.iceServers?.length) {
+    throw error || new Error('Empty ICE server configuration');
+  }
+
+  cached = { iceServers: data.iceServers, expiresAt: data.expiresAt * 1000 };
+  return data.iceServers;
+}
+
+// Relay-only mode forces all media through TURN, which is handy for testing
+// that TURN works at all. Enable with VITE_FORCE_RELAY=true, `?relay=1`, or
+// `setForceRelay(true)` (persisted in localStorage).
+export const isRelayForced = () => {
+  if (import.meta.env.VITE_FORCE_RELAY === 'true') return true;
+  try {
+    if (new URLSearchParams(window.location.search).get('relay') === '1') return true;
+    return localStorage.getItem(FORCE_RELAY_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const setForceRelay = (enabled: boolean) => {
+  if (enabled) {
+    localStorage.setItem(FORCE_RELAY_KEY, 'true');
+  } else {
+    localStorage.removeItem(FORCE_RELAY_KEY);
+  }
+};
+
+export async function getIceServers(): Promise<RTCIceServer[]> {
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.iceServers;
+  }
+
+  if (!inflight) {
+    inflight = fetchIceServers()
+      .catch(error => {
+        console.warn('Falling back to default ICE servers', error);
+        return FALLBACK_ICE_SERVERS;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+  return inflight;
+}
+
+export async function getRtcConfiguration(): Promise<RTCConfiguration> {
+  return {
+    iceServers: await getIceServers(),
+    iceTransportPolicy: isRelayForced() ? 'relay' : 'all',
+  };
+}
@@ -0,0 +1,129 @@
+import { createNegotiatedPeer, NegotiatedPeer } from '@/utils/perfectNegotiation';
+import type { SfuClientMessage, SfuConnection, SfuServerMessage } from '@/utils/sfuProtocol';
+
+// In-page stand-in for a real SFU, speaking the same protocol as the
+// WebSocket one (see sfuProtocol.ts). It terminates one RTCPeerConnection per
+// client and forwards every received track to the other clients in the room,
+// so SfuTransport can be exercised end to end in a single browser context
+// (e.g. several SfuTransports in one page). Select it with VITE_SFU_URL=local.
+
+type ClientState = {
+  userId: string;
+  room: string;
+  peer: NegotiatedPeer;
+  emit: (message: SfuServerMessage) => void;
+  published: { track: MediaStreamTrack; stream: MediaStream }[];
+  // Senders for tracks forwarded to this client, keyed by track id
+  forwarded: Map<string, RTCRtpSender>;
+};
+
+const rooms = new Map<string, Map<string, ClientState>>();
+
+const forwardTrack = (to: ClientState, from: ClientState, track: MediaStreamTrack, stream: MediaStream) => {
+  if (to.forwarded.has(track.id)) return;
+  // Tell the client who the stream belongs to before it shows up
+  to.emit({ type: 'track', streamId: stream.id, userId: from.userId });
+  to.forwarded.set(track.id, to.peer.pc.addTrack(track, stream));
+};
+
+const removeClient = (client: ClientState) => {
+  const room = rooms.get(client.room);
+  if (!room || room.get(client.userId) !== client) return;
+
+  room.delete(client.userId);
+  room.forEach(other => {
+    client.published.forEach(({ track }) => {
+      const sender = other.forwarded.get(track.id);
+      if (sender) {
+        other.peer.pc.removeTrack(sender);
+        other.forwarded.delete(track.id);
+      }
+    });
+    other.emit({ type: 'participant-left', userId: client.userId });
+  });
+  if (room.size === 0) rooms.delete(client.room);
+
+  client.peer.close();
+};
+
+export const localSfuServer = {
+  connect(): SfuConnection {
+    const handlers = new Set<(message: SfuServerMessage) => void>();
+    let client: ClientState | null = null;
+
+    // Deliver asynchronously, in order, like a socket would
+    const emit = (message: SfuServerMessage) => {
+      setTimeout(() => handlers.forEach(handler => handler(message)), 0);
+    };
+
+    const join = (roomId: string, userId: string) => {
+      const room = rooms.get(roomId) ?? new Map<string, ClientState>();
+      rooms.set(roomId, room);
+
+      // A reconnect replaces the previous session for that user
+      const previous = room.get(userId);
+      if (previous) removeClient(previous);
+
+      const state: ClientState = {
+        userId,
+        room: roomId,
+        emit,
+        published: [],
+        forwarded: new Map(),
+        peer: createNegotiatedPeer({
+          polite: false, // the server side is always impolite
+          sendSignal: (signal) => emit({ type: 'signal', ...signal }),
+          onTrack: (event) => {
+            const [stream] = event.streams;
+            if (!stream) return;
+            state.published.push({ track: event.track, stream });
+            room.forEach(other => {
+              if (other !== state) forwardTrack(other, state, event.track, stream);
+            });
+          },
+        }),
+      };
+      room.set(userId, state);
+      client = state;
+
+      emit({ type: 'joined', participants: Array.from(room.keys()).filter(id => id !== userId) });
+      room.forEach(other => {
+        if (other === state) return;
+        other.published.forEach(({ track, stream }) => forwardTrack(state, other, track, stream));
+      });
+    };
+
+    const handle = (message: SfuClientMessage) => {
+      switch (message.type) {
+        case 'join':
+          join(message.room, message.userId);
+          break;
+        case 'signal':
+          if (!client) {
+            emit({ type: 'error', message: 'Not joined' });
+            return;
+          }
+          client.peer.handleSignal({ description: message.description, candidate: message.candidate });
+          break;
+        case 'leave':
+          if (client) removeClient(client);
+          client = null;
+          break;
+      }
+    };
+
+    return {
+      send: (message) => {
+        setTimeout(() => handle(message), 0);
+      },
+      onMessage: (handler) => {
+        handlers.add(handler);
+      },
+      close: () => {
+        if (client) removeClient(client);
+        client = null;
+        handlers.clear();
+      },
+    };
+  },
+};
@@ -0,0 +1,85 @@
+// Microphone, camera and speaker selection. Device ids are specific to this
+// browser and origin, so preferences live in localStorage (per user) rather
+// than on the profile.
+
+export type MediaDeviceLists = Record<MediaDeviceKind, MediaDeviceInfo[]>;
+
+export type DevicePreference = {
+  deviceId: string;
+  label: string;
+};
+
+export type DevicePreferences = Partial<Record<MediaDeviceKind, DevicePreference>>;
+
+const PREFERENCES_KEY = 'voicelink_media_devices';
+
+export const EMPTY_DEVICE_LISTS: MediaDeviceLists = {
+  audioinput: [],
+  videoinput: [],
+  audiooutput: []
+};
+
+export async function listMediaDevices(): Promise<MediaDeviceLists> {
+  if (!navigator.mediaDevices?.enumerateDevices) return EMPTY_DEVICE_LISTS;
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    audioinput: devices.filter(device => device.kind === 'audioinput'),
+    videoinput: devices.filter(device => device.kind === 'videoinput'),
+    audiooutput: devices.filter(device => device.kind === 'audiooutput')
+  };
+}
+
+export function loadDevicePreferences(userId: string): DevicePreferences {
+  try {
+    const stored = localStorage.getItem(`${PREFERENCES_KEY}_${userId}`);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading device preferences:', error);
+    return {};
+  }
+}
+
+export function saveDevicePreference(userId: string, kind: MediaDeviceKind, device: MediaDeviceInfo): DevicePreferences {
+  const preferences = {
+    ...loadDevicePreferences(userId),
+    [kind]: { deviceId: device.deviceId, label: device.label }
+  };
+  localStorage.setItem(`${PREFERENCES_KEY}_${userId}`, JSON.stringify(preferences));
+  return preferences;
+}
+
+// Device ids can change (e.g. after clearing site data), so fall back to
+// matching on the label
+export const findPreferredDevice = (devices: MediaDeviceInfo[], preference?: DevicePreference) =>
+  preference
+    ? devices.find(device => device.deviceId === preference.deviceId) ??
+      devices.find(device => !!device.label && device.label === preference.label)
+    : undefined;
+
+// The preferred device when it's connected, otherwise the system default
+// (browsers list it first)
+export const pickDevice = (devices: MediaDeviceInfo[], preference?: DevicePreference) =>
+  findPreferredDevice(devices, preference) ?? devices[0];
+
+export const getDeviceConstraints = (device?: MediaDeviceInfo): MediaTrackConstraints | boolean =>
+  device?.deviceId ? { deviceId: { exact: device.deviceId } } : true;
+
+// Chrome's "default" entry follows the OS default, so it matches whichever
+// physical device (groupId) currently backs it
+export function isTrackFromDevice(track: MediaStreamTrack, device: MediaDeviceInfo) {
+  const settings = track.getSettings();
+  if (device.deviceId === 'default') return settings.groupId === device.groupId;
+  return settings.deviceId === device.deviceId;
+}
+
+export const isAudioOutputSelectionSupported = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+export function setAudioOutput(element: HTMLMediaElement, deviceId: string) {
+  if (!isAudioOutputSelectionSupported() || element.sinkId === deviceId) return;
+
+  element.setSinkId(deviceId).catch(error => {
+    console.error('Error selecting audio output:', error);
+  });
+}
@@ -0,0 +1,179 @@
+import type { AttachmentMetadata } from '@/utils/attachments';
+import type { MediaPreview, MediaProcessorRequest, MediaProcessorResponse, ProcessedImage } from './mediaProcessor.worker';
+
+// Prepares attachments before upload: photos are resized, re-encoded and
+// stripped of EXIF in a worker, and images and videos get a thumbnail and a
+// blurhash placeholder. Videos are uploaded as they are; only their poster
+// frame is grabbed here, since decoding video needs a <video> element.
+// Anything that can't be processed goes up untouched.
+
+export type ProcessedMedia = Pick<AttachmentMetadata, 'width' | 'height' | 'duration_ms' | 'blurhash'> & {
+  file: File;
+  thumbnail?: Blob;
+};
+
+// GIFs would lose their animation and SVGs aren't raster images
+const PROCESSABLE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'image/avif'];
+
+const POSTER_FRAME_TIMEOUT_MS = 5000;
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+export const isMediaProcessingSupported = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+function getWorker() {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./mediaProcessor.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<MediaProcessorResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if ('error' in response) request.reject(new Error(response.error));
+    else request.resolve(response.result);
+  };
+  // A worker that failed to load fails everything it was given; the next
+  // request starts a new one
+  worker.onerror = (event) => {
+    pending.forEach(request => request.reject(new Error(event.message || 'Media worker failed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+}
+
+function runInWorker<T>(request: WithoutId<MediaProcessorRequest>, transfer: Transferable[] = []) {
+  const id = nextRequestId++;
+  return new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    getWorker().postMessage({ ...request, id }, transfer);
+  });
+}
+
+const renameForType = (name: string, mimeType: string) => {
+  const extension = EXTENSIONS[mimeType];
+  if (!extension) return name;
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.${extension}`;
+};
+
+// Width/height (and duration for video) so previews can reserve their space
+// before the media loads; empty when the browser can't decode the file
+export async function readMediaInfo(file: File): Promise<Pick<AttachmentMetadata, 'width' | 'height' | 'duration_ms'>> {
+  const isImage = file.type.startsWith('image/');
+  if (!isImage && !file.type.startsWith('video/')) return {};
+
+  const url = URL.createObjectURL(file);
+  try {
+    if (isImage) {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return { width: image.naturalWidth, height: image.naturalHeight };
+    }
+
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.src = url;
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(video.error);
+    });
+    return {
+      width: video.videoWidth,
+      height: video.videoHeight,
+      duration_ms: Number.isFinite(video.duration) ? Math.round(video.duration * 1000) : undefined,
+    };
+  } catch (error) {
+    console.warn('Could not read media info for attachment', error);
+    return {};
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function processImage(file: File): Promise<ProcessedMedia> {
+  const { blob, width, height, thumbnail, blurhash } = await runInWorker<ProcessedImage>({
+    type: 'image',
+    file,
+    mimeType: file.type,
+  });
+  return {
+    file: new File([blob], renameForType(file.name, blob.type), { type: blob.type }),
+    width,
+    height,
+    thumbnail,
+    blurhash,
+  };
+}
+
+// Dimensions, duration and a frame from a moment in, since videos often open
+// on black
+async function readVideo(file: File) {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const waitFor = (event: 'loadedmetadata' | 'seeked') => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), POSTER_FRAME_TIMEOUT_MS);
+    video.addEventListener(event, () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+    video.onerror = () => {
+      clearTimeout(timer);
+      reject(video.error);
+    };
+  });
+
+  try {
+    const loaded = waitFor('loadedmetadata');
+    video.src = url;
+    await loaded;
+
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const seeked = waitFor('seeked');
+    video.currentTime = Math.min(1, duration / 2);
+    await seeked;
+
+    return {
+      width: video.videoWidth,
+      height: video.videoHeight,
+      duration_ms: duration ? Math.round(duration * 1000) : undefined,
+      frame: await createImageBitmap(video),
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function processVideo(file: File): Promise<ProcessedMedia> {
+  const { frame, ...info } = await readVideo(file);
+  const { thumbnail, blurhash } = await runInWorker<MediaPreview>({ type: 'frame', frame }, [frame]);
+  return { file, ...info, thumbnail, blurhash };
+}
+
+export async function processMedia(file: File): Promise<ProcessedMedia> {
+  if (isMediaProcessingSupported()) {
+    try {
+      if (PROCESSABLE_IMAGE_TYPES.includes(file.type)) return await processImage(file);
+      if (file.type.startsWith('video/')) return await processVideo(file);
+    } catch (error) {
+      console.warn('Could not process attachment, uploading it as is', error);
+    }
+  }
+  return { file, ...(await readMediaInfo(file)) };
+}
@@ -0,0 +1,83 @@
+import { encodeBlurhash } from '@/utils/blurhash';
+
+// Off the main thread: resizing and re-encoding images, and turning images or
+// video frames into a thumbnail and blurhash. Driven by mediaProcessor.ts.
+
+export type MediaProcessorRequest =
+  | { id: number; type: 'image'; file: Blob; mimeType: string }
+  | { id: number; type: 'frame'; frame: ImageBitmap };
+
+export type MediaPreview = { thumbnail: Blob; blurhash: string };
+
+export type ProcessedImage = MediaPreview & { blob: Blob; width: number; height: number };
+
+export type MediaProcessorResponse =
+  | { id: number; ok: true; result: ProcessedImage | MediaPreview }
+  | { id: number; ok: false; error: string };
+
+const MAX_IMAGE_DIMENSION = 2048;
+const IMAGE_QUALITY = 0.82;
+const THUMBNAIL_DIMENSION = 480;
+const THUMBNAIL_QUALITY = 0.7;
+const BLURHASH_DIMENSION = 32;
+
+const drawScaled = (source: ImageBitmap, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  const canvas = new OffscreenCanvas(
+    Math.max(1, Math.round(source.width * scale)),
+    Math.max(1, Math.round(source.height * scale))
+  );
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+async function createPreview(source: ImageBitmap): Promise<MediaPreview> {
+  const thumbnail = await drawScaled(source, THUMBNAIL_DIMENSION)
+    .convertToBlob({ type: 'image/jpeg', quality: THUMBNAIL_QUALITY });
+
+  const tiny = drawScaled(source, BLURHASH_DIMENSION);
+  const { data } = tiny.getContext('2d')!.getImageData(0, 0, tiny.width, tiny.height);
+  return { thumbnail, blurhash: encodeBlurhash(data, tiny.width, tiny.height) };
+}
+
+// Decoding applies the EXIF orientation and re-encoding through the canvas
+// writes no EXIF at all, so location data never leaves the device
+async function processImage(file: Blob, mimeType: string): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    // PNG and WebP may be transparent; everything else becomes a JPEG.
+    // Browsers that can't encode WebP fall back to PNG.
+    const type = mimeType === 'image/png' || mimeType === 'image/webp' ? mimeType : 'image/jpeg';
+    const canvas = drawScaled(bitmap, MAX_IMAGE_DIMENSION);
+    const blob = await canvas.convertToBlob({ type, quality: IMAGE_QUALITY });
+    return { blob, width: canvas.width, height: canvas.height, ...(await createPreview(bitmap)) };
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function processFrame(frame: ImageBitmap): Promise<MediaPreview> {
+  try {
+    return await createPreview(frame);
+  } finally {
+    frame.close();
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<MediaProcessorRequest>) => {
+  const request = event.data;
+  try {
+    const result = request.type === 'image'
+      ? await processImage(request.file, request.mimeType)
+      : await processFrame(request.frame);
+    self.postMessage({ id: request.id, ok: true, result } satisfies MediaProcessorResponse);
+  } catch (error) {
+    self.postMessage({
+      id: request.id,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    } satisfies MediaProcessorResponse);
+  }
+});
@@ -0,0 +1,145 @@
+import type { CallTransport, CallTransportOptions } from '@/utils/callTransport';
+import { createNegotiatedPeer, isPolitePeer, NegotiatedPeer, NegotiationSignal } from '@/utils/perfectNegotiation';
+import { applyScreenShare } from '@/utils/screenShare';
+
+// How long someone can drop out of presence (e.g. a flaky network) before
+// their connection is torn down; an explicit 'left' removes them at once
+const MEMBER_DROP_GRACE_MS = 10_000;
+
+type SignalPayload = NegotiationSignal & { from: string; to: string };
+
+// Full-mesh transport: one perfectly negotiated RTCPeerConnection per remote
+// call member, signaled over the call channel. Peers follow the channel's
+// presence, so people can join late and leave without ending the call.
+export function createMeshTransport({
+  chatRoomId,
+  userId,
+  participants,
+  localStream,
+  rtcConfig,
+  refreshRtcConfig,
+  channel,
+  onRemoteStream,
+  onRemoteLeft,
+  onConnected,
+}: CallTransportOptions): CallTransport {
+  const peers = new Map<string, NegotiatedPeer>();
+  const dropTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  let screen: MediaStream | null = null;
+  let started = false;
+  let closed = false;
+
+  // Anyone invited, or anyone who has since joined the call
+  const isRemoteParticipant = (participantId: string) =>
+    participantId !== userId &&
+    (participants.includes(participantId) || channel.getMembers().some(member => member.userId === participantId));
+
+  // Peers are created lazily: when someone shows up in the call's presence,
+  // or when their first signaling message arrives
+  const getOrCreatePeer = (participantId: string) => {
+    const existing = peers.get(participantId);
+    if (existing || closed) return existing ?? null;
+
+    const peer = createNegotiatedPeer({
+      polite: isPolitePeer(userId, participantId),
+      config: rtcConfig,
+      refreshConfig: refreshRtcConfig,
+      sendSignal: (signal) => {
+        channel.send('signal', {
+          ...signal,
+          from: userId,
+          to: participantId,
+          chatRoomId
+        });
+      },
+      onTrack: (event) => {
+        const [remoteStream] = event.streams;
+        if (remoteStream) onRemoteStream(participantId, remoteStream);
+      },
+      onConnectionStateChange: (state) => {
+        if (state === 'connected') onConnected();
+      },
+    });
+
+    // Adding tracks fires negotiationneeded, which sends the offer
+    localStream.getTracks().forEach(track => {
+      peer.pc.addTrack(track, localStream);
+    });
+    if (screen) {
+      applyScreenShare(peer.pc, localStream, screen).catch(error => {
+        console.error('Failed to share screen with new peer:', error);
+      });
+    }
+
+    peers.set(participantId, peer);
+    return peer;
+  };
+
+  const removePeer = (participantId: string) => {
+    clearTimeout(dropTimers.get(participantId));
+    dropTimers.delete(participantId);
+
+    const peer = peers.get(participantId);
+    if (peer) {
+      peer.close();
+      peers.delete(participantId);
+      onRemoteLeft(participantId);
+    }
+  };
+
+  channel.on<SignalPayload>('signal', (payload) => {
+    if (payload.to === userId && isRemoteParticipant(payload.from)) {
+      getOrCreatePeer(payload.from)?.handleSignal({
+        description: payload.description,
+        candidate: payload.candidate,
+      });
+    }
+  });
+
+  channel.on<{ from: string }>('left', (payload) => removePeer(payload.from));
+
+  channel.onMembersChange((members) => {
+    if (!started || closed) return;
+
+    const present = new Set(members.map(member => member.userId));
+    present.forEach(memberId => {
+      if (memberId === userId || !isRemoteParticipant(memberId)) return;
+      clearTimeout(dropTimers.get(memberId));
+      dropTimers.delete(memberId);
+      getOrCreatePeer(memberId);
+    });
+
+    peers.forEach((_, participantId) => {
+      if (present.has(participantId) || dropTimers.has(participantId)) return;
+      dropTimers.set(participantId, setTimeout(() => removePeer(participantId), MEMBER_DROP_GRACE_MS));
+    });
+  });
+
+  return {
+    mode: 'mesh',
+    // Connect to everyone already in the call; they connect back when our
+    // presence reaches them, and perfect negotiation sorts out the overlap
+    start: async () => {
+      started = true;
+      channel.getMembers().forEach(member => {
+        if (isRemoteParticipant(member.userId)) getOrCreatePeer(member.userId);
+      });
+    },
+    getPeerConnections: () => Array.from(peers.values()).map(peer => peer.pc),
+    getParticipantConnections: () =>
+      new Map(Array.from(peers, ([participantId, peer]) => [participantId, peer.pc])),
+    setScreenShare: async (nextScreen) => {
+      screen = nextScreen;
+      await Promise.all(
+        Array.from(peers.values()).map(peer => applyScreenShare(peer.pc, localStream, screen))
+      );
+    },
+    close: () => {
+      closed = true;
+      dropTimers.forEach(timer => clearTimeout(timer));
+      dropTimers.clear();
+      peers.forEach(peer => peer.close());
+      peers.clear();
+    },
+  };
+}
@@ -0,0 +1,366 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { offlineQueue, QueuedAction } from '@/utils/offlineQueue';
+
+// Reading a room's message history a page at a time. Pages are keyed on
+// (created_at, id) so messages sharing a timestamp are neither skipped nor
+// repeated at a page boundary.
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+// How long after sending a message can be edited, or deleted for everyone.
+// The database functions enforce the same limits.
+export const EDIT_WINDOW_MINUTES = 15;
+export const DELETE_WINDOW_MINUTES = 60;
+
+export interface MessageSender {
+  id: string;
+  user_id: string;
+  username: string;
+  display_name: string;
+  is_online: boolean;
+  last_seen?: string | null;
+  avatar_url?: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  created_at: string;
+  sender_id: string;
+  message_type: string;
+  metadata?: Json | null;
+  edited_at?: string | null;
+  // Deleted for everyone: the message stays as a tombstone, its content gone
+  deleted_at?: string | null;
+  // Replies quote the message they answer, and belong to the thread of the
+  // first message in the chain
+  reply_to_id?: string | null;
+  thread_root_id?: string | null;
+  // On thread roots
+  reply_count?: number;
+  // null when the quoted message can't be shown, e.g. we deleted it for ourselves
+  reply_to?: QuotedMessage | null;
+  reactions?: MessageReaction[];
+  sender: MessageSender;
+  // Only on our own messages that haven't reached the server yet
+  status?: MessageStatus;
+}
+
+export type MessageReaction = Pick<Tables<'message_reactions'>, 'id' | 'user_id' | 'emoji'>;
+
+// What a reply shows of the message it answers
+export interface QuotedMessage {
+  id: string;
+  content: string;
+  message_type: string;
+  deleted_at?: string | null;
+  sender_name: string;
+}
+
+// 'queued' ones are on the offline queue, waiting for the connection
+export type MessageStatus = 'sending' | 'queued';
+
+// A text message as sent, and as kept on the offline queue. The id is made on
+// the client so the optimistic copy can be matched with the real one.
+export interface OutgoingMessage {
+  id?: string;
+  chat_room_id: string;
+  sender_id: string;
+  content: string;
+  created_at?: string;
+  reply_to_id?: string;
+  // Only for showing the unsent reply; the server works these out itself
+  reply_to?: QuotedMessage;
+  thread_root_id?: string;
+}
+
+type MessageRow = Tables<'messages'>;
+
+export type MessageCursor = Pick<ChatMessage, 'id' | 'created_at'>;
+
+const unknownSender = (userId: string): MessageSender => ({
+  id: '',
+  user_id: userId,
+  username: 'unknown',
+  display_name: 'Unknown User',
+  is_online: false,
+});
+
+export const toQuote = (message: ChatMessage): QuotedMessage => ({
+  id: message.id,
+  content: message.content,
+  message_type: message.message_type,
+  deleted_at: message.deleted_at,
+  sender_name: message.sender.display_name,
+});
+
+// Rows to messages, with their senders' profiles, reactions and the messages
+// they reply to fetched in one go
+export async function withSenders(rows: MessageRow[]): Promise<ChatMessage[]> {
+  if (rows.length === 0) return [];
+
+  const rowIds = new Set(rows.map(row => row.id));
+  const missingParentIds = [...new Set(rows
+    .map(row => row.reply_to_id)
+    .filter((id): id is string => !!id && !rowIds.has(id)))];
+  let parents: MessageRow[] = [];
+  if (missingParentIds.length > 0) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .in('id', missingParentIds);
+    if (error) throw error;
+    parents = data ?? [];
+  }
+
+  const senderIds = [...new Set([...rows, ...parents].map(row => row.sender_id))];
+  const [{ data: profiles, error }, { data: reactions, error: reactionsError }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('*')
+      .in('user_id', senderIds),
+    supabase
+      .from('message_reactions')
+      .select('id, message_id, user_id, emoji')
+      .in('message_id', [...rowIds])
+      .order('created_at', { ascending: true }),
+  ]);
+  if (error) throw error;
+  if (reactionsError) throw reactionsError;
+
+  const reactionsByMessage = new Map<string, MessageReaction[]>();
+  reactions?.forEach(({ message_id, ...reaction }) => {
+    reactionsByMessage.set(message_id, [...(reactionsByMessage.get(message_id) ?? []), reaction]);
+  });
+
+  const profileMap = new Map<string, MessageSender>();
+  profiles?.forEach(profile => profileMap.set(profile.user_id, profile));
+
+  const toMessage = (row: MessageRow): ChatMessage => ({
+    id: row.id,
+    content: row.content,
+    created_at: row.created_at,
+    sender_id: row.sender_id,
+    message_type: row.message_type || 'text',
+    metadata: row.metadata,
+    edited_at: row.edited_at,
+    deleted_at: row.deleted_at,
+    reply_to_id: row.reply_to_id,
+    thread_root_id: row.thread_root_id,
+    reply_count: row.reply_count,
+    sender: profileMap.get(row.sender_id) || unknownSender(row.sender_id),
+  });
+
+  const quotes = new Map<string, QuotedMessage>();
+  [...rows, ...parents].forEach(row => quotes.set(row.id, toQuote(toMessage(row))));
+
+  return rows.map(row => ({
+    ...toMessage(row),
+    reply_to: row.reply_to_id ? quotes.get(row.reply_to_id) ?? null : undefined,
+    reactions: reactionsByMessage.get(row.id) ?? [],
+  }));
+}
+
+// PostgREST needs the timestamp quoted; it contains ':' and '+'
+const cursorFilter = (cursor: MessageCursor, direction: 'lt' | 'gt') =>
+  `created_at.${direction}."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.${direction}.${cursor.id})`;
+
+// Up to `limit` messages older than `before` (or the newest ones), oldest first
+export async function fetchMessagesBefore(chatRoomId: string, before?: MessageCursor, limit = MESSAGE_PAGE_SIZE) {
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_room_id', chatRoomId);
+  if (before) query = query.or(cursorFilter(before, 'lt'));
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return withSenders((data ?? []).reverse());
+}
+
+// Up to `limit` messages newer than `after`, oldest first
+export async function fetchMessagesAfter(chatRoomId: string, after: MessageCursor, limit = MESSAGE_PAGE_SIZE) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_room_id', chatRoomId)
+    .or(cursorFilter(after, 'gt'))
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+  return withSenders(data ?? []);
+}
+
+export async function fetchMessage(chatRoomId: string, messageId: string) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_room_id', chatRoomId)
+    .eq('id', messageId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const [message] = await withSenders([data]);
+  return message;
+}
+
+// A retry of a message that did get through fails on its id instead of
+// sending it twice, which counts as sent
+export async function insertTextMessage({ id, chat_room_id, sender_id, content, reply_to_id }: OutgoingMessage) {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      id,
+      chat_room_id,
+      sender_id,
+      content,
+      reply_to_id,
+      message_type: 'text'
+    });
+  if (error && error.code !== '23505') throw error;
+}
+
+// How our own unsent message shows until the real one arrives
+export const localMessage = (message: OutgoingMessage, status: MessageStatus): ChatMessage => ({
+  id: message.id ?? `pending_${message.created_at}`,
+  content: message.content,
+  created_at: message.created_at ?? new Date().toISOString(),
+  sender_id: message.sender_id,
+  message_type: 'text',
+  reply_to_id: message.reply_to_id,
+  reply_to: message.reply_to,
+  thread_root_id: message.thread_root_id,
+  status,
+  sender: {
+    id: '',
+    user_id: message.sender_id,
+    username: 'me',
+    display_name: 'Me',
+    is_online: true
+  },
+});
+
+// Entries queued before messages had client-made ids take their queue time
+export const queuedMessage = (action: QueuedAction) =>
+  localMessage({ created_at: new Date(action.timestamp).toISOString(), ...action.payload }, 'queued');
+
+export const queuedMessages = (chatRoomId: string) =>
+  offlineQueue.getQueue()
+    .filter(action => action.type === 'message' && action.payload.chat_room_id === chatRoomId)
+    .map(queuedMessage);
+
+const sentWithin = (message: ChatMessage, minutes: number) =>
+  Date.now() - new Date(message.created_at).getTime() < minutes * 60 * 1000;
+
+export const canEditMessage = (message: ChatMessage, userId: string) =>
+  message.sender_id === userId
+  && !message.status
+  && !message.deleted_at
+  && message.message_type === 'text'
+  && sentWithin(message, EDIT_WINDOW_MINUTES);
+
+export const canDeleteForEveryone = (message: ChatMessage, userId: string) =>
+  message.sender_id === userId
+  && !message.status
+  && !message.deleted_at
+  && sentWithin(message, DELETE_WINDOW_MINUTES);
+
+export async function editMessage(messageId: string, content: string) {
+  const { error } = await supabase.rpc('edit_message', { message_uuid: messageId, new_content: content });
+  if (error) throw error;
+}
+
+export async function deleteMessageForEveryone(messageId: string) {
+  const { error } = await supabase.rpc('delete_message_for_everyone', { message_uuid: messageId });
+  if (error) throw error;
+}
+
+// Only hides it from us; the server stops returning it
+export async function deleteMessageForMe(messageId: string, userId: string) {
+  const { error } = await supabase
+    .from('message_deletions')
+    .insert({ message_id: messageId, user_id: userId });
+  if (error && error.code !== '23505') throw error;
+}
+
+export type MessageRevision = Pick<Tables<'message_revisions'>, 'id' | 'content' | 'created_at'>;
+
+// Earlier versions of an edited message, oldest first. Each one's created_at
+// is when it was replaced.
+export async function fetchMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+  const { data, error } = await supabase
+    .from('message_revisions')
+    .select('id, content, created_at')
+    .eq('message_id', messageId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Storage files a voice, attachment or recording message points at
+export function messageFilePaths(message: Pick<ChatMessage, 'metadata'>) {
+  const metadata = message.metadata as { path?: unknown; thumbnail_path?: unknown } | null | undefined;
+  if (!metadata || typeof metadata !== 'object') return [];
+  return [metadata.path, metadata.thumbnail_path].filter((path): path is string => typeof path === 'string');
+}
+
+// A one-line summary of a message, for quotes and previews
+export function describeMessage(message: Pick<QuotedMessage, 'content' | 'message_type' | 'deleted_at'>) {
+  if (message.deleted_at) return 'This message was deleted';
+  switch (message.message_type) {
+    case 'voice': return '🎤 Voice message';
+    case 'image': return message.content ? `📷 ${message.content}` : '📷 Photo';
+    case 'video': return message.content ? `🎥 ${message.content}` : '🎥 Video';
+    case 'file': return `📄 ${message.content}`;
+    case 'call_recording': return '⏺️ Call recording';
+    case 'voice_call': return '📞 Voice call';
+    case 'video_call': return '📹 Video call';
+    default: return message.content;
+  }
+}
+
+// A thread's first message and every reply in it, oldest first
+export async function fetchThread(rootId: string) {
+  const [{ data: root, error: rootError }, { data: replies, error: repliesError }] = await Promise.all([
+    supabase.from('messages').select('*').eq('id', rootId).maybeSingle(),
+    supabase
+      .from('messages')
+      .select('*')
+      .eq('thread_root_id', rootId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true }),
+  ]);
+  if (rootError) throw rootError;
+  if (repliesError) throw repliesError;
+
+  const messages = await withSenders(root ? [root, ...(replies ?? [])] : replies ?? []);
+  return {
+    root: root ? messages[0] : null,
+    replies: root ? messages.slice(1) : messages,
+  };
+}
+
+// The emojis a user has reacted to a message with
+export const reactedWith = (message: ChatMessage, userId: string) =>
+  (message.reactions ?? []).filter(reaction => reaction.user_id === userId).map(reaction => reaction.emoji);
+
+// Someone reacting twice with the same emoji counts as done
+export async function addReaction(reaction: MessageReaction, messageId: string, chatRoomId: string) {
+  const { error } = await supabase
+    .from('message_reactions')
+    .insert({ ...reaction, message_id: messageId, chat_room_id: chatRoomId });
+  if (error && error.code !== '23505') throw error;
+}
+
+export async function removeReaction(reactionId: string) {
+  const { error } = await supabase
+    .from('message_reactions')
+    .delete()
+    .eq('id', reactionId);
+  if (error) throw error;
+}
@@ -1,8 +1,8 @@
 // Queue for storing actions to be executed when back online
 
-interface QueuedAction {
+export interface QueuedAction {
   id: string;
-  type: 'message' | 'status_update';
+  type: 'message' | 'status_update' | 'upload';
   payload: any;
   timestamp: number;
 }
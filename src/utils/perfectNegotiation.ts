@@ -0,0 +1,174 @@
+// Perfect negotiation for a single RTCPeerConnection
+// (https://w3c.github.io/webrtc-pc/#perfect-negotiation-example).
+//
+// Both ends may offer at any time; offers are driven by `negotiationneeded`,
+// so adding, removing or replacing tracks mid-call just works. When offers
+// collide the polite peer rolls back and answers, the impolite one ignores
+// the incoming offer. ICE candidates that arrive before a remote description
+// are buffered, and ICE is restarted when the connection fails.
+
+export type NegotiationSignal = {
+  description?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit | null;
+};
+
+export interface NegotiatedPeerOptions {
+  polite: boolean;
+  config?: RTCConfiguration;
+  // Fresh configuration (e.g. renewed TURN credentials) applied before ICE restarts
+  refreshConfig?: () => Promise<RTCConfiguration>;
+  sendSignal: (signal: NegotiationSignal) => void;
+  onTrack?: (event: RTCTrackEvent) => void;
+  onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+}
+
+export interface NegotiatedPeer {
+  pc: RTCPeerConnection;
+  polite: boolean;
+  handleSignal: (signal: NegotiationSignal) => Promise<void>;
+  restartIce: () => Promise<void>;
+  close: () => void;
+}
+
+// How long ICE may stay "disconnected" before we try a restart
+const DISCONNECTED_RESTART_DELAY_MS = 5000;
+
+// Picks roles so that exactly one side of every pair is polite
+export const isPolitePeer = (localId: string, remoteId: string) => localId > remoteId;
+
+export function createNegotiatedPeer({
+  polite,
+  config,
+  refreshConfig,
+  sendSignal,
+  onTrack,
+  onConnectionStateChange,
+}: NegotiatedPeerOptions): NegotiatedPeer {
+  const pc = new RTCPeerConnection(config);
+
+  let makingOffer = false;
+  let ignoreOffer = false;
+  let isSettingRemoteAnswerPending = false;
+  let pendingCandidates: RTCIceCandidateInit[] = [];
+  let disconnectedTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const clearDisconnectedTimer = () => {
+    if (disconnectedTimer) {
+      clearTimeout(disconnectedTimer);
+      disconnectedTimer = null;
+    }
+  };
+
+  const restartIce = async () => {
+    if (closed) return;
+    if (refreshConfig) {
+      try {
+        pc.setConfiguration(await refreshConfig());
+      } catch (error) {
+        console.warn('Failed to refresh ICE configuration', error);
+      }
+    }
+    if (closed) return;
+    // Triggers negotiationneeded with an ICE-restart offer
+    pc.restartIce();
+  };
+
+  pc.onnegotiationneeded = async () => {
+    try {
+      makingOffer = true;
+      await pc.setLocalDescription();
+      sendSignal({ description: pc.localDescription?.toJSON() });
+    } catch (error) {
+      console.error('Failed to create offer', error);
+    } finally {
+      makingOffer = false;
+    }
+  };
+
+  pc.onicecandidate = ({ candidate }) => {
+    sendSignal({ candidate: candidate ? candidate.toJSON() : null });
+  };
+
+  pc.ontrack = (event) => onTrack?.(event);
+
+  pc.oniceconnectionstatechange = () => {
+    switch (pc.iceConnectionState) {
+      case 'failed':
+        clearDisconnectedTimer();
+        restartIce();
+        break;
+      case 'disconnected':
+        // Often recovers on its own (e.g. a brief network switch)
+        clearDisconnectedTimer();
+        disconnectedTimer = setTimeout(() => {
+          if (pc.iceConnectionState === 'disconnected') restartIce();
+        }, DISCONNECTED_RESTART_DELAY_MS);
+        break;
+      default:
+        clearDisconnectedTimer();
+    }
+  };
+
+  pc.onconnectionstatechange = () => onConnectionStateChange?.(pc.connectionState);
+
+  const flushPendingCandidates = async () => {
+    const candidates = pendingCandidates;
+    pendingCandidates = [];
+    for (const candidate of candidates) {
+      try {
+        await pc.addIceCandidate(candidate);
+      } catch (error) {
+        console.warn('Failed to add buffered ICE candidate', error);
+      }
+    }
+  };
+
+  const handleSignal = async ({ description, candidate }: NegotiationSignal) => {
+    if (closed) return;
+
+    try {
+      if (description) {
+        const readyForOffer =
+          !makingOffer && (pc.signalingState === 'stable' || isSettingRemoteAnswerPending);
+        const offerCollision = description.type === 'offer' && !readyForOffer;
+
+        ignoreOffer = !polite && offerCollision;
+        if (ignoreOffer) return;
+
+        isSettingRemoteAnswerPending = description.type === 'answer';
+        await pc.setRemoteDescription(description); // rolls back our offer if needed
+        isSettingRemoteAnswerPending = false;
+
+        if (description.type === 'offer') {
+          await pc.setLocalDescription();
+          sendSignal({ description: pc.localDescription?.toJSON() });
+        }
+
+        await flushPendingCandidates();
+      } else if (candidate !== undefined) {
+        if (!pc.remoteDescription) {
+          if (candidate) pendingCandidates.push(candidate);
+          return;
+        }
+        try {
+          await pc.addIceCandidate(candidate ?? undefined);
+        } catch (error) {
+          // Candidates for an offer we ignored are expected to fail
+          if (!ignoreOffer) throw error;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to handle signaling message', error);
+    }
+  };
+
+  const close = () => {
+    closed = true;
+    clearDisconnectedTimer();
+    pendingCandidates = [];
+    pc.close();
+  };
+
+  return { pc, polite, handleSignal, restartIce, close };
+}
@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Who has the app open, from the app-wide `presence:online` Realtime channel.
+// Each open tab tracks the user's state there; presence notices a tab going
+// away by itself, while profiles.last_seen keeps the time for when they're
+// offline.
+
+// Online while the app is visible and in use, away when it's hidden or idle
+export type PresenceState = 'online' | 'away';
+
+// What each tab tracks in presence
+export type PresenceMeta = {
+  userId: string;
+  state: PresenceState;
+};
+
+// A user is online if any of their tabs is
+export const readPresence = (state: Record<string, PresenceMeta[]>) => {
+  const users = new Map<string, PresenceState>();
+  Object.values(state).flat().forEach(({ userId, state: tabState }) => {
+    if (userId && users.get(userId) !== 'online') users.set(userId, tabState);
+  });
+  return users;
+};
+
+// Keeps is_online and last_seen on the profile up to date for anyone not
+// watching presence (and for after we've gone)
+export async function updateLastSeen(userId: string, online: boolean) {
+  const { error } = await supabase.rpc('update_user_status', { user_uuid: userId, online_status: online });
+  if (error) throw error;
+}
+
+// The same, for when the page is going away: a keepalive request outlives
+// the page, where supabase-js's wouldn't
+export function updateLastSeenOnExit(userId: string, accessToken: string) {
+  fetch(`${import.meta.env.VITE_SUPABASE_URL}/rest/v1/rpc/update_user_status`, {
+    method: 'POST',
+    keepalive: true,
+    headers: {
+      'Content-Type': 'application/json',
+      authorization: `Bearer ${accessToken}`,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    },
+    body: JSON.stringify({ user_uuid: userId, online_status: false }),
+  }).catch(() => {
+    // Nothing to do about it with the page gone; the last heartbeat stands
+  });
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export function formatLastSeen(timestamp: string) {
+  const date = new Date(timestamp);
+  const now = new Date();
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+  if (minutes < 1) return 'last seen just now';
+  if (minutes < 60) return `last seen ${minutes} min ago`;
+
+  const yesterday = new Date(now);
+  yesterday.setDate(now.getDate() - 1);
+  if (date.toDateString() === now.toDateString()) return `last seen today at ${formatTime(date)}`;
+  if (date.toDateString() === yesterday.toDateString()) return `last seen yesterday at ${formatTime(date)}`;
+  return `last seen ${date.toLocaleDateString([], { day: 'numeric', month: 'short' })}`;
+}
+
+// The status line under a contact's name
+export function describePresence(state: PresenceState | undefined, lastSeen: string | null | undefined) {
+  if (state === 'online') return 'Online';
+  if (state === 'away') return 'Away';
+  return lastSeen ? formatLastSeen(lastSeen) : 'Offline';
+}
+
+// "Alice is typing…", "Alice and Bob are typing…", "Alice and 2 others are typing…"
+export function describeTyping(names: string[]) {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names[0]} and ${names.length - 1} others are typing…`;
+}
@@ -0,0 +1,103 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ChatMessage } from '@/utils/messages';
+
+// Delivery and read receipts. Each member of a room has a position in it:
+// messages up to last_delivered_at have reached one of their devices, and
+// messages up to last_read_at have been on their screen. The database only
+// moves these forward, and leaves last_read_* empty for members who don't
+// share read receipts.
+
+export type ParticipantReceipt = Pick<
+  Tables<'chat_participants'>,
+  'user_id' | 'last_read_message_id' | 'last_read_at' | 'last_delivered_at'
+>;
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+export async function fetchReceipts(chatRoomId: string): Promise<ParticipantReceipt[]> {
+  const { data, error } = await supabase
+    .from('chat_participants')
+    .select('user_id, last_read_message_id, last_read_at, last_delivered_at')
+    .eq('chat_room_id', chatRoomId);
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Everything in the room (or in every room, without one) has reached us
+export async function markMessagesDelivered(chatRoomId?: string) {
+  const { error } = await supabase.rpc('mark_messages_delivered', chatRoomId ? { room_uuid: chatRoomId } : {});
+  if (error) throw error;
+}
+
+// Everything up to and including the message has been read
+export async function markMessagesRead(messageId: string) {
+  const { error } = await supabase.rpc('mark_messages_read', { message_uuid: messageId });
+  if (error) throw error;
+}
+
+export async function fetchReadReceiptsSetting(userId: string) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('read_receipts')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.read_receipts ?? true;
+}
+
+export async function updateReadReceiptsSetting(userId: string, enabled: boolean) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ read_receipts: enabled })
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+// Postgres and realtime write timestamps differently, so compare instants
+const reached = (position: string | null, message: ChatMessage) =>
+  !!position && new Date(position).getTime() >= new Date(message.created_at).getTime();
+
+export const hasRead = (receipt: ParticipantReceipt, message: ChatMessage) => reached(receipt.last_read_at, message);
+
+// The other members who have read a message
+export const seenBy = (message: ChatMessage, receipts: ParticipantReceipt[]) =>
+  receipts.filter(receipt => receipt.user_id !== message.sender_id && hasRead(receipt, message));
+
+// Where our message has got to with everyone else in the room. Reads are only
+// shown to users who share their own.
+export function receiptStatus(message: ChatMessage, receipts: ParticipantReceipt[], showReads: boolean): ReceiptStatus {
+  const others = receipts.filter(receipt => receipt.user_id !== message.sender_id);
+  if (others.length === 0) return 'sent';
+  if (showReads && others.every(receipt => hasRead(receipt, message))) return 'read';
+  if (others.every(receipt => reached(receipt.last_delivered_at, message))) return 'delivered';
+  return 'sent';
+}
+
+// Unread messages in a room, and whether it was marked unread by hand
+export interface UnreadState {
+  count: number;
+  markedUnread: boolean;
+}
+
+// For every room we're in, keyed by room id
+export async function fetchUnreadCounts(): Promise<Record<string, UnreadState>> {
+  const { data, error } = await supabase.rpc('get_unread_counts');
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map(row => [
+    row.chat_room_id,
+    { count: row.unread_count, markedUnread: row.marked_unread },
+  ]));
+}
+
+export async function markRoomRead(chatRoomId: string) {
+  const { error } = await supabase.rpc('mark_room_read', { room_uuid: chatRoomId });
+  if (error) throw error;
+}
+
+export async function markRoomUnread(chatRoomId: string) {
+  const { error } = await supabase.rpc('mark_room_unread', { room_uuid: chatRoomId });
+  if (error) throw error;
+}
+
+export const isUnread = (state: UnreadState | undefined) => !!state && (state.count > 0 || state.markedUnread);
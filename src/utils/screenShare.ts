@@ -0,0 +1,71 @@
+import { Capacitor } from '@capacitor/core';
+
+// The Android/iOS WebViews used by the Capacitor shell don't implement
+// getDisplayMedia, so screen sharing is a browser-only feature for now
+export const isScreenShareSupported = () =>
+  !Capacitor.isNativePlatform() &&
+  typeof navigator !== 'undefined' &&
+  typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+
+// Resolves to null when the user dismisses the picker
+export async function captureScreen(): Promise<MediaStream | null> {
+  try {
+    const screen = await navigator.mediaDevices.getDisplayMedia({
+      video: true,
+      // Tab/system audio where the browser offers it
+      audio: true
+    });
+    // Tells the encoder to favour sharpness over frame rate
+    screen.getVideoTracks().forEach(track => {
+      track.contentHint = 'detail';
+    });
+    return screen;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotAllowedError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Points the outgoing media of one peer connection at the screen capture, or
+// back at the camera when `screen` is null. The screen video reuses the camera
+// sender via replaceTrack (no renegotiation); when there is no camera sender
+// (voice calls) or the capture has audio, tracks are added or removed on
+// localStream, which fires negotiationneeded on the peer.
+export async function applyScreenShare(
+  pc: RTCPeerConnection,
+  localStream: MediaStream,
+  screen: MediaStream | null
+) {
+  const [cameraTrack] = localStream.getVideoTracks();
+  const [screenVideo] = screen?.getVideoTracks() ?? [];
+  const [screenAudio] = screen?.getAudioTracks() ?? [];
+  const localTrackIds = new Set(localStream.getTracks().map(track => track.id));
+  const senders = pc.getSenders();
+
+  const videoSender = senders.find(sender => sender.track?.kind === 'video');
+  const nextVideo = screenVideo ?? cameraTrack ?? null;
+  if (videoSender) {
+    if (nextVideo) {
+      await videoSender.replaceTrack(nextVideo);
+    } else {
+      pc.removeTrack(videoSender);
+    }
+  } else if (nextVideo) {
+    pc.addTrack(nextVideo, localStream);
+  }
+
+  const screenAudioSender = senders.find(
+    sender => sender.track?.kind === 'audio' && !localTrackIds.has(sender.track.id)
+  );
+  if (screenAudioSender) {
+    if (screenAudio) {
+      await screenAudioSender.replaceTrack(screenAudio);
+    } else {
+      pc.removeTrack(screenAudioSender);
+    }
+  } else if (screenAudio) {
+    pc.addTrack(screenAudio, localStream);
+  }
+}
@@ -0,0 +1,68 @@
+import type { NegotiationSignal } from '@/utils/perfectNegotiation';
+
+// Signaling protocol spoken between SfuTransport and an SFU. Every message is
+// a JSON object with a `type`; SDP and ICE use the same shape as the mesh
+// transport's perfect negotiation (the client is always the polite peer).
+//
+// client → server
+//   join    { room, userId, token }    enter a room; token is the Supabase access token
+//   signal  { description?, candidate? }
+//   leave   {}
+//
+// server → client
+//   joined            { participants }  users currently publishing in the room
+//   signal            { description?, candidate? }
+//   track             { streamId, userId } the next stream with this id belongs to userId
+//   participant-left  { userId }
+//   error             { message }
+
+export type SfuClientMessage =
+  | { type: 'join'; room: string; userId: string; token?: string }
+  | ({ type: 'signal' } & NegotiationSignal)
+  | { type: 'leave' };
+
+export type SfuServerMessage =
+  | { type: 'joined'; participants: string[] }
+  | ({ type: 'signal' } & NegotiationSignal)
+  | { type: 'track'; streamId: string; userId: string }
+  | { type: 'participant-left'; userId: string }
+  | { type: 'error'; message: string };
+
+export interface SfuConnection {
+  send: (message: SfuClientMessage) => void;
+  onMessage: (handler: (message: SfuServerMessage) => void) => void;
+  close: () => void;
+}
+
+// Opens a WebSocket to the SFU; resolves once the socket is open
+export function connectSfuWebSocket(url: string): Promise<SfuConnection> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const handlers = new Set<(message: SfuServerMessage) => void>();
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data) as SfuServerMessage;
+        handlers.forEach(handler => handler(message));
+      } catch (error) {
+        console.warn('Ignoring malformed SFU message', error);
+      }
+    };
+
+    socket.onopen = () => {
+      resolve({
+        send: (message) => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(message));
+          }
+        },
+        onMessage: (handler) => {
+          handlers.add(handler);
+        },
+        close: () => socket.close(),
+      });
+    };
+
+    socket.onerror = () => reject(new Error(`Could not connect to SFU at ${url}`));
+  });
+}
@@ -0,0 +1,142 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CallTransport, CallTransportOptions } from '@/utils/callTransport';
+import { createNegotiatedPeer, NegotiatedPeer } from '@/utils/perfectNegotiation';
+import { connectSfuWebSocket, SfuConnection, SfuServerMessage } from '@/utils/sfuProtocol';
+import { localSfuServer } from '@/utils/localSfuServer';
+import { applyScreenShare } from '@/utils/screenShare';
+import { SIMULCAST_ENCODINGS, supportsSimulcast } from '@/utils/bitrateController';
+
+// VITE_SFU_URL is a wss:// URL, or "local" for the in-page stand-in server
+export const getSfuUrl = (): string | undefined => import.meta.env.VITE_SFU_URL || undefined;
+
+export const isSfuConfigured = () => !!getSfuUrl();
+
+const connectSfu = async (url: string): Promise<SfuConnection> =>
+  url === 'local' ? localSfuServer.connect() : connectSfuWebSocket(url);
+
+// SFU transport: a single RTCPeerConnection to the SFU carries our media up
+// and everyone else's media down.
+export function createSfuTransport({
+  chatRoomId,
+  userId,
+  localStream,
+  rtcConfig,
+  refreshRtcConfig,
+  onRemoteStream,
+  onRemoteLeft,
+  onConnected,
+}: CallTransportOptions): CallTransport {
+  let connection: SfuConnection | null = null;
+  let peer: NegotiatedPeer | null = null;
+  let screen: MediaStream | null = null;
+  let closed = false;
+
+  // The SFU announces who owns each stream before forwarding it
+  const streamOwners = new Map<string, string>();
+  const unclaimedStreams = new Map<string, MediaStream>();
+  const remoteParticipants = new Set<string>();
+
+  const handleMessage = (message: SfuServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        message.participants.forEach(id => remoteParticipants.add(id));
+        break;
+      case 'signal':
+        peer?.handleSignal({ description: message.description, candidate: message.candidate });
+        break;
+      case 'track': {
+        streamOwners.set(message.streamId, message.userId);
+        remoteParticipants.add(message.userId);
+        const stream = unclaimedStreams.get(message.streamId);
+        if (stream) {
+          unclaimedStreams.delete(message.streamId);
+          onRemoteStream(message.userId, stream);
+        }
+        break;
+      }
+      case 'participant-left':
+        streamOwners.forEach((owner, streamId) => {
+          if (owner === message.userId) streamOwners.delete(streamId);
+        });
+        remoteParticipants.delete(message.userId);
+        onRemoteLeft(message.userId);
+        break;
+      case 'error':
+        console.error('SFU error:', message.message);
+        break;
+    }
+  };
+
+  return {
+    mode: 'sfu',
+    start: async () => {
+      const url = getSfuUrl();
+      if (!url) throw new Error('SFU is not configured');
+
+      connection = await connectSfu(url);
+      if (closed) {
+        connection.close();
+        return;
+      }
+
+      peer = createNegotiatedPeer({
+        polite: true, // the SFU always wins offer collisions
+        config: rtcConfig,
+        refreshConfig: refreshRtcConfig,
+        sendSignal: (signal) => connection?.send({ type: 'signal', ...signal }),
+        onTrack: (event) => {
+          const [stream] = event.streams;
+          if (!stream) return;
+          const owner = streamOwners.get(stream.id);
+          if (owner) {
+            onRemoteStream(owner, stream);
+          } else {
+            unclaimedStreams.set(stream.id, stream);
+          }
+        },
+        onConnectionStateChange: (state) => {
+          if (state === 'connected') onConnected();
+        },
+      });
+      connection.onMessage(handleMessage);
+
+      const { data: { session } } = await supabase.auth.getSession();
+      connection.send({ type: 'join', room: chatRoomId, userId, token: session?.access_token });
+
+      // Publishing our tracks starts negotiation with the SFU. Video goes up as
+      // simulcast layers so the SFU can pick one per receiver; the in-page
+      // stand-in is a plain browser peer and can't receive simulcast.
+      const simulcast = url !== 'local' && supportsSimulcast();
+      localStream.getTracks().forEach(track => {
+        if (track.kind === 'video' && simulcast) {
+          peer?.pc.addTransceiver(track, {
+            streams: [localStream],
+            sendEncodings: SIMULCAST_ENCODINGS.map(encoding => ({ ...encoding })),
+          });
+        } else {
+          peer?.pc.addTrack(track, localStream);
+        }
+      });
+      if (screen && peer) await applyScreenShare(peer.pc, localStream, screen);
+    },
+    getPeerConnections: () => (peer ? [peer.pc] : []),
+    // Everyone's media shares the one connection to the SFU
+    getParticipantConnections: () =>
+      new Map(peer ? Array.from(remoteParticipants, id => [id, peer.pc] as const) : []),
+    setScreenShare: async (nextScreen) => {
+      screen = nextScreen;
+      if (peer) await applyScreenShare(peer.pc, localStream, screen);
+    },
+    close: () => {
+      closed = true;
+      connection?.send({ type: 'leave' });
+      connection?.close();
+      peer?.close();
+      connection = null;
+      peer = null;
+      streamOwners.clear();
+      unclaimedStreams.clear();
+      remoteParticipants.clear();
+    },
+  };
+}
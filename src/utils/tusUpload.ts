@@ -0,0 +1,153 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Resumable uploads to Supabase Storage over TUS (https://tus.io). An upload
+// is created once and then sent in chunks; its URL stays valid for a day, so
+// an interrupted upload asks the server how far it got and carries on from
+// there instead of starting over.
+
+const ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+// Supabase requires every chunk but the last to be exactly this size
+const CHUNK_SIZE = 6 * 1024 * 1024;
+// Between attempts at a failed chunk; after the last one the upload fails
+const TUS_RETRY_DELAYS_MS = [1000, 3000, 10000, 30000];
+
+type TusOptions = { onProgress?: (fraction: number) => void; signal?: AbortSignal };
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+async function getHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) throw new Error('Not signed in');
+  return {
+    'Tus-Resumable': '1.0.0',
+    authorization: `Bearer ${data.session.access_token}`,
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+  };
+}
+
+const encodeMetadataValue = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+
+// Returns the upload's URL, which is all that's needed to resume it later
+async function createTusUpload({
+  bucket,
+  path,
+  size,
+  contentType,
+}: {
+  bucket: string;
+  path: string;
+  size: number;
+  contentType: string;
+}) {
+  const metadata = { bucketName: bucket, objectName: path, contentType, cacheControl: '3600' };
+  const response = await fetch(ENDPOINT, {
+    method: 'POST',
+    headers: {
+      ...(await getHeaders()),
+      'Upload-Length': String(size),
+      'Upload-Metadata': Object.entries(metadata)
+        .map(([key, value]) => `${key} ${encodeMetadataValue(value)}`)
+        .join(','),
+      // A retry after the file made it but the caller didn't hear back
+      // overwrites rather than failing on the existing object
+      'x-upsert': 'true',
+    },
+  });
+  const location = response.headers.get('Location');
+  if (response.status !== 201 || !location) throw new Error(`Could not create upload (${response.status})`);
+  return new URL(location, ENDPOINT).toString();
+}
+
+// How many bytes the server has, or null when it no longer knows the upload
+// (expired, or finished and cleaned up)
+async function getTusUploadOffset(url: string) {
+  const response = await fetch(url, { method: 'HEAD', headers: await getHeaders(), cache: 'no-store' });
+  if (response.status === 404 || response.status === 410) return null;
+  if (!response.ok) throw new Error(`Could not check upload (${response.status})`);
+  return Number(response.headers.get('Upload-Offset'));
+}
+
+// XHR rather than fetch for upload progress within a chunk
+function sendChunk(url: string, chunk: Blob, offset: number, headers: Record<string, string>, { onProgress, signal }: TusOptions) {
+  return new Promise<number>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', abort);
+      if (xhr.status === 204) resolve(Number(xhr.getResponseHeader('Upload-Offset')));
+      else reject(new Error(`Upload failed with status ${xhr.status}`));
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', abort);
+      reject(new Error('Upload failed'));
+    };
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+
+    xhr.open('PATCH', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+    xhr.send(chunk);
+  });
+}
+
+// Sends the rest of `file` from `offset`. Rejects with an AbortError when
+// cancelled.
+async function sendTusUpload(url: string, file: Blob, offset: number, { onProgress, signal }: TusOptions = {}) {
+  while (offset < file.size) {
+    signal?.throwIfAborted();
+    const start = offset;
+    offset = await sendChunk(url, file.slice(start, start + CHUNK_SIZE), start, await getHeaders(), {
+      signal,
+      onProgress: fraction => onProgress?.((start + fraction * Math.min(CHUNK_SIZE, file.size - start)) / file.size),
+    });
+  }
+  onProgress?.(1);
+}
+
+const waitForRetry = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Upload cancelled', 'AbortError'));
+  }, { once: true });
+});
+
+// Creates (or picks up) an upload and sends it, retrying failed chunks with
+// backoff. `uploadUrl`/`onCreated` let the caller persist the upload and
+// resume it in a later session.
+export async function uploadResumable(
+  { bucket, path, file, contentType, uploadUrl, onCreated }: {
+    bucket: string;
+    path: string;
+    file: Blob;
+    contentType: string;
+    uploadUrl?: string;
+    onCreated?: (uploadUrl: string) => void;
+  },
+  { onProgress, signal }: TusOptions = {}
+) {
+  let url = uploadUrl;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      let offset = url ? await getTusUploadOffset(url) : null;
+      if (offset === null) {
+        url = await createTusUpload({ bucket, path, size: file.size, contentType });
+        offset = 0;
+        onCreated?.(url);
+      }
+      await sendTusUpload(url, file, offset, { onProgress, signal });
+      return;
+    } catch (error) {
+      // Offline isn't worth retrying against; the caller waits for the connection
+      if (isAbortError(error) || !navigator.onLine || attempt >= TUS_RETRY_DELAYS_MS.length) throw error;
+      await waitForRetry(TUS_RETRY_DELAYS_MS[attempt], signal);
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import { CHAT_FILES_BUCKET, uploadChatFile } from '@/utils/chatFiles';
+import { prepareAttachment, sendAttachmentMessage } from '@/utils/attachments';
+import { offlineQueue } from '@/utils/offlineQueue';
+import { isAbortError, uploadResumable } from '@/utils/tusUpload';
+import { StoredUpload, uploadStore } from '@/utils/uploadStore';
+
+// Attachment uploads, shared by every chat room. Each one is persisted before
+// it starts and sent with resumable (TUS) uploads, so it can be paused and
+// resumed, survives flaky connections, and picks up where it left off after
+// the app restarts. Uploads that can't go out because we're offline are put on
+// the offline queue and started again by resumeQueuedUploads.
+
+export type UploadStatus = 'preparing' | 'uploading' | 'waiting' | 'paused' | 'failed';
+
+export type UploadItem = {
+  id: string;
+  chatRoomId: string;
+  file: File;
+  progress: number; // 0..1
+  status: UploadStatus;
+};
+
+type FailureListener = (upload: UploadItem, error: unknown) => void;
+
+const uploads = new Map<string, UploadItem>();
+const records = new Map<string, StoredUpload>();
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<() => void>();
+const failureListeners = new Set<FailureListener>();
+let restoredFor: string | null = null;
+
+const notify = () => listeners.forEach(listener => listener());
+
+const update = (id: string, changes: Partial<UploadItem>) => {
+  const upload = uploads.get(id);
+  if (!upload) return;
+  uploads.set(id, { ...upload, ...changes });
+  notify();
+};
+
+// Losing persistence (e.g. private browsing) only loses resuming after a restart
+const persist = (record: StoredUpload) =>
+  uploadStore.put(record).catch(error => console.warn('Could not persist upload', error));
+
+export const getUploads = () => Array.from(uploads.values());
+
+export function subscribeToUploads(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function onUploadFailed(listener: FailureListener) {
+  failureListeners.add(listener);
+  return () => {
+    failureListeners.delete(listener);
+  };
+}
+
+const removeFromOfflineQueue = (id: string) => {
+  offlineQueue.getQueue()
+    .filter(action => action.type === 'upload' && action.payload.uploadId === id)
+    .forEach(action => offlineQueue.removeFromQueue(action.id));
+};
+
+function waitForConnection(id: string) {
+  update(id, { status: 'waiting' });
+  const queued = offlineQueue.getQueue().some(action => action.type === 'upload' && action.payload.uploadId === id);
+  if (!queued) offlineQueue.addToQueue({ type: 'upload', payload: { uploadId: id } });
+}
+
+function fail(id: string, error: unknown) {
+  update(id, { status: 'failed' });
+  const upload = uploads.get(id);
+  if (upload) failureListeners.forEach(listener => listener(upload, error));
+}
+
+function remove(id: string) {
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+  uploads.delete(id);
+  records.delete(id);
+  removeFromOfflineQueue(id);
+  uploadStore.remove(id).catch(error => console.warn('Could not remove stored upload', error));
+  notify();
+}
+
+async function runUpload(record: StoredUpload, signal: AbortSignal) {
+  if (!record.uploaded) {
+    // A missing thumbnail only costs the preview, so it doesn't fail the upload
+    if (record.thumbnail && record.attachment.thumbnail_path) {
+      try {
+        await uploadChatFile(record.attachment.thumbnail_path, record.thumbnail, 'image/jpeg', { upsert: true });
+      } catch (error) {
+        if (!navigator.onLine) throw error;
+        console.warn('Could not upload attachment thumbnail', error);
+        record.attachment = { ...record.attachment, thumbnail_path: undefined };
+      }
+      record.thumbnail = undefined;
+      await persist(record);
+    }
+
+    await uploadResumable(
+      {
+        bucket: CHAT_FILES_BUCKET,
+        path: record.attachment.path,
+        file: record.file,
+        contentType: record.attachment.mime_type,
+        uploadUrl: record.uploadUrl,
+        onCreated: (uploadUrl) => {
+          record.uploadUrl = uploadUrl;
+          persist(record);
+        },
+      },
+      { signal, onProgress: progress => update(record.id, { progress }) }
+    );
+    record.uploaded = true;
+    await persist(record);
+  }
+
+  signal.throwIfAborted();
+  await sendAttachmentMessage(record.attachment, record.chatRoomId, record.userId, record.caption);
+}
+
+function startUpload(id: string) {
+  const record = records.get(id);
+  if (!record || record.paused || controllers.has(id)) return;
+  if (!navigator.onLine) {
+    waitForConnection(id);
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  removeFromOfflineQueue(id);
+  update(id, { status: 'uploading' });
+
+  runUpload(record, controller.signal)
+    .then(() => remove(id))
+    .catch((error) => {
+      if (controllers.get(id) === controller) controllers.delete(id);
+      // Paused or cancelled; whoever aborted has already updated the status
+      if (isAbortError(error)) return;
+      if (!navigator.onLine) {
+        waitForConnection(id);
+        return;
+      }
+      console.error('Error uploading attachment:', error);
+      fail(id, error);
+    });
+}
+
+export async function enqueueUpload({
+  file,
+  chatRoomId,
+  userId,
+  caption,
+}: {
+  file: File;
+  chatRoomId: string;
+  userId: string;
+  caption?: string;
+}) {
+  const id = crypto.randomUUID();
+  uploads.set(id, { id, chatRoomId, file, progress: 0, status: 'preparing' });
+  notify();
+
+  let prepared: Awaited<ReturnType<typeof prepareAttachment>>;
+  try {
+    prepared = await prepareAttachment(file, chatRoomId, userId);
+  } catch (error) {
+    console.error('Error preparing attachment:', error);
+    fail(id, error);
+    return;
+  }
+  // Cancelled while it was being processed
+  if (!uploads.has(id)) return;
+
+  const record: StoredUpload = {
+    id,
+    userId,
+    chatRoomId,
+    caption,
+    file: prepared.file,
+    thumbnail: prepared.thumbnail,
+    attachment: prepared.attachment,
+    uploaded: false,
+    paused: false,
+    createdAt: Date.now(),
+  };
+  records.set(id, record);
+  update(id, { file: prepared.file });
+  await persist(record);
+  startUpload(id);
+}
+
+export function pauseUpload(id: string) {
+  const record = records.get(id);
+  if (!record) return;
+  record.paused = true;
+  persist(record);
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+  removeFromOfflineQueue(id);
+  update(id, { status: 'paused' });
+}
+
+// Also retries a failed upload
+export function resumeUpload(id: string) {
+  const record = records.get(id);
+  if (!record) return;
+  record.paused = false;
+  persist(record);
+  startUpload(id);
+}
+
+export function cancelUpload(id: string) {
+  remove(id);
+}
+
+// Starts what was waiting for the connection to come back
+export function resumeQueuedUploads() {
+  offlineQueue.getQueue()
+    .filter(action => action.type === 'upload')
+    .forEach(action => startUpload(action.payload.uploadId));
+}
+
+// Picks up the user's unfinished uploads from a previous session
+export async function restoreUploads(userId: string) {
+  if (restoredFor === userId) return;
+  restoredFor = userId;
+
+  let stored: StoredUpload[];
+  try {
+    stored = await uploadStore.getAll(userId);
+  } catch (error) {
+    console.warn('Could not restore uploads', error);
+    return;
+  }
+
+  stored
+    .filter(record => !records.has(record.id))
+    .forEach((record) => {
+      records.set(record.id, record);
+      uploads.set(record.id, {
+        id: record.id,
+        chatRoomId: record.chatRoomId,
+        file: record.file,
+        progress: 0,
+        status: record.paused ? 'paused' : 'waiting',
+      });
+    });
+  notify();
+
+  // Left over from uploads that have since gone away
+  offlineQueue.getQueue()
+    .filter(action => action.type === 'upload' && !records.has(action.payload.uploadId))
+    .forEach(action => offlineQueue.removeFromQueue(action.id));
+  stored.forEach(record => startUpload(record.id));
+}
@@ -0,0 +1,63 @@
+import { AttachmentMetadata } from '@/utils/attachments';
+
+// Attachment uploads that haven't finished yet. Kept in IndexedDB rather than
+// localStorage because it can hold the file itself, so an upload survives the
+// app being closed.
+
+export interface StoredUpload {
+  id: string;
+  userId: string;
+  chatRoomId: string;
+  caption?: string;
+  file: File;
+  thumbnail?: Blob;
+  attachment: AttachmentMetadata;
+  uploadUrl?: string; // the TUS upload, once created
+  uploaded: boolean; // file is stored, only the message is left to send
+  paused: boolean;
+  createdAt: number;
+}
+
+const DB_NAME = 'voicelink_uploads';
+const STORE_NAME = 'uploads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+function openDb() {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    dbPromise = promisify(request).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+const getStore = async (mode: IDBTransactionMode) =>
+  (await openDb()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+export const uploadStore = {
+  async getAll(userId: string): Promise<StoredUpload[]> {
+    const uploads = await promisify((await getStore('readonly')).getAll() as IDBRequest<StoredUpload[]>);
+    return uploads
+      .filter(upload => upload.userId === userId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  async put(upload: StoredUpload): Promise<void> {
+    await promisify((await getStore('readwrite')).put(upload));
+  },
+
+  async remove(id: string): Promise<void> {
+    await promisify((await getStore('readwrite')).delete(id));
+  },
+};
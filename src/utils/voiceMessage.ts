@@ -0,0 +1,149 @@
+import { supabase } from '@/integrations/supabase/client';
+import { buildChatFilePath, uploadChatFile } from '@/utils/chatFiles';
+
+// Voice messages: recorded with MediaRecorder, stored in chat-files and sent
+// as a `voice` message. The file's path, duration and a downsampled waveform
+// travel in the message metadata so the player can draw itself before the
+// audio has loaded.
+
+export const MAX_VOICE_MESSAGE_MS = 2 * 60 * 1000;
+// Anything shorter is almost certainly an accidental tap
+export const MIN_VOICE_MESSAGE_MS = 500;
+export const WAVEFORM_BARS = 40;
+
+const LEVEL_INTERVAL_MS = 50;
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+export type VoiceMessageMetadata = {
+  path?: string; // older voice messages kept a public URL in the content instead
+  duration_ms: number;
+  waveform: number[]; // WAVEFORM_BARS levels between 0 and 1
+  mime_type: string;
+};
+
+export type VoiceRecording = {
+  blob: Blob;
+  metadata: VoiceMessageMetadata;
+};
+
+export const isVoiceRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Averages raw levels into `bars` buckets, scaled so the loudest bar is 1
+export function downsampleWaveform(levels: number[], bars = WAVEFORM_BARS) {
+  if (levels.length === 0) return new Array(bars).fill(0);
+
+  const buckets = Array.from({ length: bars }, (_, index) => {
+    const start = Math.floor((index * levels.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((index + 1) * levels.length) / bars));
+    const slice = levels.slice(start, end);
+    return slice.reduce((sum, level) => sum + level, 0) / slice.length;
+  });
+
+  const peak = Math.max(...buckets);
+  return buckets.map(level => (peak > 0 ? Math.round((level / peak) * 100) / 100 : 0));
+}
+
+export const parseVoiceMetadata = (metadata: unknown): VoiceMessageMetadata | null => {
+  const value = metadata as Partial<VoiceMessageMetadata> | null;
+  if (!value || typeof value.duration_ms !== 'number' || !Array.isArray(value.waveform)) return null;
+  return { path: value.path, duration_ms: value.duration_ms, waveform: value.waveform, mime_type: value.mime_type ?? '' };
+};
+
+export const formatVoiceDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Records from the microphone, reporting the input level as it goes for the
+// live waveform. Stops by itself at MAX_VOICE_MESSAGE_MS.
+export async function startVoiceRecording({
+  onLevel,
+  onMaxDuration,
+}: {
+  onLevel: (level: number) => void;
+  onMaxDuration: () => void;
+}) {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const buffer = new Float32Array(analyser.fftSize);
+  const levels: number[] = [];
+
+  const levelTimer = setInterval(() => {
+    analyser.getFloatTimeDomainData(buffer);
+    let sum = 0;
+    for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+    const level = Math.sqrt(sum / buffer.length);
+    levels.push(level);
+    onLevel(level);
+  }, LEVEL_INTERVAL_MS);
+
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const startedAt = Date.now();
+  recorder.start();
+  const maxTimer = setTimeout(onMaxDuration, MAX_VOICE_MESSAGE_MS);
+
+  const release = () => {
+    clearInterval(levelTimer);
+    clearTimeout(maxTimer);
+    stream.getTracks().forEach(track => track.stop());
+    context.close().catch(() => {});
+  };
+
+  const finish = () => new Promise<VoiceRecording>((resolve) => {
+    recorder.onstop = () => {
+      release();
+      const type = recorder.mimeType || mimeType || 'audio/webm';
+      resolve({
+        blob: new Blob(chunks, { type }),
+        metadata: {
+          duration_ms: Math.min(Date.now() - startedAt, MAX_VOICE_MESSAGE_MS),
+          waveform: downsampleWaveform(levels),
+          mime_type: type,
+        },
+      });
+    };
+    recorder.stop();
+  });
+
+  return {
+    startedAt,
+    stop: finish,
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state !== 'inactive') recorder.stop();
+      else release();
+    },
+  };
+}
+
+export type VoiceRecordingSession = Awaited<ReturnType<typeof startVoiceRecording>>;
+
+export async function sendVoiceMessage(recording: VoiceRecording, chatRoomId: string, userId: string) {
+  const extension = recording.metadata.mime_type.includes('mp4')
+    ? 'm4a'
+    : recording.metadata.mime_type.includes('ogg') ? 'ogg' : 'webm';
+  const path = buildChatFilePath(chatRoomId, userId, `voice-${Date.now()}.${extension}`);
+  await uploadChatFile(path, recording.blob, recording.metadata.mime_type);
+
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      chat_room_id: chatRoomId,
+      sender_id: userId,
+      content: 'Voice message',
+      message_type: 'voice',
+      metadata: { ...recording.metadata, path },
+    });
+  if (error) throw error;
+}
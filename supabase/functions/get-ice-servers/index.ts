@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Returns the ICE servers for WebRTC calls. TURN credentials follow the
+// coturn REST API scheme (use-auth-secret / static-auth-secret):
+//   username   = "<unix expiry>:<user id>"
+//   credential = base64(HMAC-SHA1(TURN_SECRET, username))
+//
+// Env:
+//   STUN_URLS         comma-separated stun: URLs (optional)
+//   TURN_URLS         comma-separated turn:/turns: URLs (optional)
+//   TURN_SECRET       shared secret configured in coturn
+//   TURN_TTL_SECONDS  credential lifetime, defaults to 6 hours
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_STUN_URLS = ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"];
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+
+const splitUrls = (value: string | undefined) =>
+  (value || "").split(",").map((url) => url.trim()).filter(Boolean);
+
+async function createTurnCredential(secret: string, username: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(username));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only signed-in users get TURN credentials
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } },
+    );
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const stunUrls = splitUrls(Deno.env.get("STUN_URLS"));
+    const turnUrls = splitUrls(Deno.env.get("TURN_URLS"));
+    const turnSecret = Deno.env.get("TURN_SECRET");
+    const ttl = Number(Deno.env.get("TURN_TTL_SECONDS")) || DEFAULT_TTL_SECONDS;
+
+    const iceServers: { urls: string[]; username?: string; credential?: string }[] = [
+      { urls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS },
+    ];
+
+    const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+    if (turnUrls.length > 0 && turnSecret) {
+      const username = `${expiresAt}:${user.id}`;
+      iceServers.push({
+        urls: turnUrls,
+        username,
+        credential: await createTurnCredential(turnSecret, username),
+      });
+    }
+
+    return new Response(JSON.stringify({ iceServers, ttl, expiresAt }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("get-ice-servers failed", error);
+    return new Response(JSON.stringify({ error: "Failed to create ICE configuration" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
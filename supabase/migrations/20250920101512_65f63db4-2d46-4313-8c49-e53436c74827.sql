@@ -0,0 +1,50 @@
+-- Create calls table for call history
+CREATE TABLE public.calls (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chat_room_id UUID NOT NULL REFERENCES public.chat_rooms(id) ON DELETE CASCADE,
+  caller_id UUID NOT NULL,
+  participants UUID[] NOT NULL DEFAULT '{}', -- all participants including caller
+  call_type TEXT NOT NULL CHECK (call_type IN ('voice', 'video')),
+  outcome TEXT NOT NULL DEFAULT 'ringing', -- 'ringing', 'completed', 'missed', 'declined', 'busy', 'cancelled', 'failed'
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  answered_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  duration_seconds INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_calls_chat_room_id ON public.calls (chat_room_id);
+CREATE INDEX idx_calls_started_at ON public.calls (started_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.calls ENABLE ROW LEVEL SECURITY;
+
+-- Everyone in the room can see its calls
+CREATE POLICY "Users can view calls in their chat rooms"
+ON public.calls
+FOR SELECT
+TO authenticated
+USING (public.is_user_in_chat(chat_room_id));
+
+-- Only the caller records and finishes a call
+CREATE POLICY "Callers can create calls in their chat rooms"
+ON public.calls
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = caller_id AND public.is_user_in_chat(chat_room_id));
+
+CREATE POLICY "Callers can update their calls"
+ON public.calls
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = caller_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_calls_updated_at
+BEFORE UPDATE ON public.calls
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add to realtime publication
+ALTER PUBLICATION supabase_realtime ADD TABLE public.calls;
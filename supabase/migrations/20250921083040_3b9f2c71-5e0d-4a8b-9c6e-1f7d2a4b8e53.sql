@@ -0,0 +1,34 @@
+-- Per-user call quality summaries, written by each participant when they
+-- leave a call. call_id is the id shared by everyone in the call (the
+-- caller's calls row); it is not a foreign key because callees may report
+-- for a call whose row the caller failed to create.
+CREATE TABLE public.call_quality_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  call_id UUID NOT NULL,
+  chat_room_id UUID NOT NULL REFERENCES public.chat_rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  transport TEXT NOT NULL CHECK (transport IN ('mesh', 'sfu')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  summary JSONB NOT NULL DEFAULT '{}', -- per remote participant: rtt, jitter, loss, bitrate, candidate types
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_call_quality_reports_call_id ON public.call_quality_reports (call_id);
+CREATE INDEX idx_call_quality_reports_chat_room_id ON public.call_quality_reports (chat_room_id);
+
+-- Enable RLS
+ALTER TABLE public.call_quality_reports ENABLE ROW LEVEL SECURITY;
+
+-- Everyone in the room can see reports for its calls, to compare both ends
+CREATE POLICY "Users can view call quality reports in their chat rooms"
+ON public.call_quality_reports
+FOR SELECT
+TO authenticated
+USING (public.is_user_in_chat(chat_room_id));
+
+CREATE POLICY "Users can create their own call quality reports"
+ON public.call_quality_reports
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.is_user_in_chat(chat_room_id));
@@ -0,0 +1,4 @@
+-- Structured data for non-text messages, e.g. a voice message's duration and
+-- waveform, so clients can render them without downloading the file first
+ALTER TABLE public.messages
+ADD COLUMN metadata JSONB;
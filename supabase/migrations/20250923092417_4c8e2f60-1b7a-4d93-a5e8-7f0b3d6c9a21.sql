@@ -0,0 +1,72 @@
+-- Chat files are private to the chat they were sent in. New files are stored
+-- as <chat_room_id>/<user_id>/<file>, only members of that room can read
+-- them and clients read them through short-lived signed URLs.
+UPDATE storage.buckets SET public = false WHERE id = 'chat-files';
+
+-- The room id from a chat file's path, or NULL for older <user_id>/<file>
+-- paths and anything else that isn't a room folder
+CREATE OR REPLACE FUNCTION public.chat_file_room_id(object_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN (storage.foldername(object_name))[1]::uuid;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Users can upload files to chat-files bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view files in chat-files bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their files in chat-files bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their files in chat-files bucket" ON storage.objects;
+
+CREATE POLICY "Users can upload files to their chat rooms"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-files'
+  AND public.is_user_in_chat(public.chat_file_room_id(name))
+  AND auth.uid()::text = (storage.foldername(name))[2]
+);
+
+-- Files from before room-scoped paths live under the uploader's own folder
+-- and stay readable by the uploader only
+CREATE POLICY "Users can view files in their chat rooms"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-files'
+  AND (
+    public.is_user_in_chat(public.chat_file_room_id(name))
+    OR auth.uid()::text = (storage.foldername(name))[1]
+  )
+);
+
+CREATE POLICY "Users can update their own chat files"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'chat-files'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[2]
+    OR auth.uid()::text = (storage.foldername(name))[1]
+  )
+);
+
+CREATE POLICY "Users can delete their own chat files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'chat-files'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[2]
+    OR auth.uid()::text = (storage.foldername(name))[1]
+  )
+);
@@ -0,0 +1,3 @@
+-- Message history is read a page at a time, newest first, with
+-- (created_at, id) as the cursor
+CREATE INDEX idx_messages_chat_room_created_at ON public.messages (chat_room_id, created_at DESC, id DESC);
@@ -0,0 +1,18 @@
+-- The chat list follows new messages and new rooms over realtime, and
+-- optimistic messages are matched up with their realtime copies by id
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'chat_participants'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_participants;
+  END IF;
+END $$;
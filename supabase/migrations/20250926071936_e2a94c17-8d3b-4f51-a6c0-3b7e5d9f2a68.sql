@@ -0,0 +1,147 @@
+-- Editing and deleting sent messages. Senders edit and delete for everyone
+-- through the functions below, which enforce the time limits; there is still
+-- no UPDATE or DELETE policy on messages, so nothing else can change them.
+
+ALTER TABLE public.messages
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Earlier versions of edited messages, each stored when it was replaced
+CREATE TABLE public.message_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_revisions_message_id ON public.message_revisions (message_id, created_at);
+
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of messages in their chat rooms"
+ON public.message_revisions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_revisions.message_id
+    AND public.is_user_in_chat(m.chat_room_id)
+  )
+);
+
+-- Messages a user has deleted for themselves only
+CREATE TABLE public.message_deletions (
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+ALTER TABLE public.message_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own message deletions"
+ON public.message_deletions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete messages in their chat rooms for themselves"
+ON public.message_deletions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_deletions.message_id
+    AND public.is_user_in_chat(m.chat_room_id)
+  )
+);
+
+-- Restrictive, so it narrows whichever policies let users read messages: a
+-- message deleted for yourself is gone from history, the chat list and
+-- realtime alike
+CREATE POLICY "Users don't see messages they deleted for themselves"
+ON public.messages
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (
+  NOT EXISTS (
+    SELECT 1 FROM public.message_deletions d
+    WHERE d.message_id = messages.id
+    AND d.user_id = auth.uid()
+  )
+);
+
+-- Keep in step with EDIT_WINDOW_MINUTES in src/utils/messages.ts
+CREATE OR REPLACE FUNCTION public.edit_message(message_uuid UUID, new_content TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  msg public.messages%ROWTYPE;
+BEGIN
+  SELECT * INTO msg FROM public.messages WHERE id = message_uuid FOR UPDATE;
+
+  IF NOT FOUND OR msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+  IF msg.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This message was deleted';
+  END IF;
+  IF COALESCE(msg.message_type, 'text') <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+  IF msg.created_at < now() - INTERVAL '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending';
+  END IF;
+  IF btrim(COALESCE(new_content, '')) = '' THEN
+    RAISE EXCEPTION 'A message can''t be empty';
+  END IF;
+  IF new_content = msg.content THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.message_revisions (message_id, content)
+  VALUES (msg.id, msg.content);
+
+  UPDATE public.messages
+  SET content = new_content, edited_at = now()
+  WHERE id = msg.id;
+END;
+$$;
+
+-- Leaves a tombstone in place of the message, and drops its earlier versions
+-- with it. Keep in step with DELETE_WINDOW_MINUTES in src/utils/messages.ts.
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(message_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  msg public.messages%ROWTYPE;
+BEGIN
+  SELECT * INTO msg FROM public.messages WHERE id = message_uuid FOR UPDATE;
+
+  IF NOT FOUND OR msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+  IF msg.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+  IF msg.created_at < now() - INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'Messages can only be deleted for everyone for an hour after sending';
+  END IF;
+
+  DELETE FROM public.message_revisions WHERE message_id = msg.id;
+
+  UPDATE public.messages
+  SET content = '', metadata = NULL, deleted_at = now()
+  WHERE id = msg.id;
+END;
+$$;
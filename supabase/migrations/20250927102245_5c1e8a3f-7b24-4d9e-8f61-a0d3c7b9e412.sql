@@ -0,0 +1,64 @@
+-- Replies. A reply quotes the message it answers (reply_to_id) and belongs to
+-- the thread started by the first message in the chain (thread_root_id), so a
+-- whole thread is one indexed lookup. Both are filled in and checked by the
+-- trigger below; clients only set reply_to_id.
+
+ALTER TABLE public.messages
+ADD COLUMN reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN thread_root_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN reply_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_messages_thread_root_created_at
+ON public.messages (thread_root_id, created_at, id)
+WHERE thread_root_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_message_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent public.messages%ROWTYPE;
+BEGIN
+  NEW.reply_count := 0;
+  IF NEW.reply_to_id IS NULL THEN
+    NEW.thread_root_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM public.messages WHERE id = NEW.reply_to_id;
+  IF NOT FOUND OR parent.chat_room_id <> NEW.chat_room_id THEN
+    RAISE EXCEPTION 'Can only reply to a message in the same chat';
+  END IF;
+
+  NEW.thread_root_id := COALESCE(parent.thread_root_id, parent.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_message_thread
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_message_thread();
+
+-- Kept on the root so the message list can show "3 replies" without counting
+CREATE OR REPLACE FUNCTION public.count_thread_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages
+  SET reply_count = reply_count + 1
+  WHERE id = NEW.thread_root_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER count_thread_reply
+AFTER INSERT ON public.messages
+FOR EACH ROW
+WHEN (NEW.thread_root_id IS NOT NULL)
+EXECUTE FUNCTION public.count_thread_reply();
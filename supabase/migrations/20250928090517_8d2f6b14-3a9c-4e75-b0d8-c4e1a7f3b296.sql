@@ -0,0 +1,47 @@
+-- Emoji reactions on messages. The room is stored alongside the message so
+-- access can be checked, and realtime filtered, without a join.
+CREATE TABLE public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  chat_room_id UUID NOT NULL REFERENCES public.chat_rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_message_id ON public.message_reactions (message_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reactions in their chat rooms"
+ON public.message_reactions
+FOR SELECT
+TO authenticated
+USING (public.is_user_in_chat(chat_room_id));
+
+-- The message has to be in the room the reaction claims, and not deleted for
+-- everyone
+CREATE POLICY "Users can react to messages in their chat rooms"
+ON public.message_reactions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_user_in_chat(chat_room_id)
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_reactions.message_id
+    AND m.chat_room_id = message_reactions.chat_room_id
+    AND m.deleted_at IS NULL
+  )
+);
+
+CREATE POLICY "Users can remove their own reactions"
+ON public.message_reactions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Add to realtime publication
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
@@ -0,0 +1,100 @@
+-- Delivery and read receipts. Each participant row records how far that user
+-- has got in the room: every message created at or before last_delivered_at
+-- has reached one of their devices, and every message up to last_read_at (the
+-- created_at of last_read_message_id) has been on their screen. Clients move
+-- these forward through the functions below; there is no UPDATE policy on
+-- chat_participants.
+
+ALTER TABLE public.chat_participants
+ADD COLUMN last_read_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN last_read_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN last_delivered_at TIMESTAMP WITH TIME ZONE;
+
+-- Users who turn this off don't share how far they've read
+ALTER TABLE public.profiles
+ADD COLUMN read_receipts BOOLEAN NOT NULL DEFAULT true;
+
+-- For one room, or every room the user is in. Rooms with nothing new from
+-- anyone else are left alone, so there's no update for realtime to send.
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered(room_uuid UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_participants cp
+  SET last_delivered_at = now()
+  WHERE cp.user_id = auth.uid()
+  AND (room_uuid IS NULL OR cp.chat_room_id = room_uuid)
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.chat_room_id = cp.chat_room_id
+    AND m.sender_id <> auth.uid()
+    AND m.created_at > COALESCE(cp.last_delivered_at, '-infinity')
+  );
+END;
+$$;
+
+-- Everything up to and including the message has been read. Reading implies
+-- delivery, and the read position only ever moves forward.
+CREATE OR REPLACE FUNCTION public.mark_messages_read(message_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  msg public.messages%ROWTYPE;
+  shares_receipts BOOLEAN;
+BEGIN
+  SELECT * INTO msg FROM public.messages WHERE id = message_uuid;
+  IF NOT FOUND OR NOT public.is_user_in_chat(msg.chat_room_id) THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  shares_receipts := COALESCE(
+    (SELECT read_receipts FROM public.profiles WHERE user_id = auth.uid()),
+    true
+  );
+
+  UPDATE public.chat_participants
+  SET
+    last_delivered_at = GREATEST(COALESCE(last_delivered_at, '-infinity'), now()),
+    last_read_message_id = CASE
+      WHEN shares_receipts AND COALESCE(last_read_at, '-infinity') < msg.created_at THEN msg.id
+      ELSE last_read_message_id
+    END,
+    last_read_at = CASE
+      WHEN shares_receipts AND COALESCE(last_read_at, '-infinity') < msg.created_at THEN msg.created_at
+      ELSE last_read_at
+    END
+  WHERE chat_room_id = msg.chat_room_id
+  AND user_id = auth.uid()
+  AND (
+    COALESCE(last_delivered_at, '-infinity') < msg.created_at
+    OR (shares_receipts AND COALESCE(last_read_at, '-infinity') < msg.created_at)
+  );
+END;
+$$;
+
+-- Turning read receipts off also withdraws the ones already shared
+CREATE OR REPLACE FUNCTION public.clear_read_receipts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_participants
+  SET last_read_message_id = NULL, last_read_at = NULL
+  WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_read_receipts
+AFTER UPDATE OF read_receipts ON public.profiles
+FOR EACH ROW
+WHEN (OLD.read_receipts AND NOT NEW.read_receipts)
+EXECUTE FUNCTION public.clear_read_receipts();
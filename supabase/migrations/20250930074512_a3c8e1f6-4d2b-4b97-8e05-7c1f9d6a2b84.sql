@@ -0,0 +1,162 @@
+-- Unread counts. Each user's read position in a room is kept here, privately,
+-- alongside the shared one on chat_participants: users who turn read receipts
+-- off still need theirs to count what's unread. marked_unread is set by "Mark
+-- as unread" and cleared the next time the room is read.
+
+CREATE TABLE public.chat_read_cursors (
+  user_id UUID NOT NULL,
+  chat_room_id UUID NOT NULL REFERENCES public.chat_rooms(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE,
+  marked_unread BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, chat_room_id)
+);
+
+ALTER TABLE public.chat_read_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own read cursors"
+ON public.chat_read_cursors
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Existing history counts as read, rather than every room starting out with
+-- everything in it unread
+INSERT INTO public.chat_read_cursors (user_id, chat_room_id, last_read_at)
+SELECT user_id, chat_room_id, now()
+FROM public.chat_participants
+ON CONFLICT DO NOTHING;
+
+-- Now also moves the private cursor, which (unlike the shared one) follows
+-- every read whether or not receipts are shared
+CREATE OR REPLACE FUNCTION public.mark_messages_read(message_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  msg public.messages%ROWTYPE;
+  shares_receipts BOOLEAN;
+BEGIN
+  SELECT * INTO msg FROM public.messages WHERE id = message_uuid;
+  IF NOT FOUND OR NOT public.is_user_in_chat(msg.chat_room_id) THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  shares_receipts := COALESCE(
+    (SELECT read_receipts FROM public.profiles WHERE user_id = auth.uid()),
+    true
+  );
+
+  UPDATE public.chat_participants
+  SET
+    last_delivered_at = GREATEST(COALESCE(last_delivered_at, '-infinity'), now()),
+    last_read_message_id = CASE
+      WHEN shares_receipts AND COALESCE(last_read_at, '-infinity') < msg.created_at THEN msg.id
+      ELSE last_read_message_id
+    END,
+    last_read_at = CASE
+      WHEN shares_receipts AND COALESCE(last_read_at, '-infinity') < msg.created_at THEN msg.created_at
+      ELSE last_read_at
+    END
+  WHERE chat_room_id = msg.chat_room_id
+  AND user_id = auth.uid()
+  AND (
+    COALESCE(last_delivered_at, '-infinity') < msg.created_at
+    OR (shares_receipts AND COALESCE(last_read_at, '-infinity') < msg.created_at)
+  );
+
+  INSERT INTO public.chat_read_cursors (user_id, chat_room_id, last_read_at)
+  VALUES (auth.uid(), msg.chat_room_id, msg.created_at)
+  ON CONFLICT (user_id, chat_room_id) DO UPDATE
+  SET
+    last_read_at = GREATEST(COALESCE(chat_read_cursors.last_read_at, '-infinity'), EXCLUDED.last_read_at),
+    marked_unread = false,
+    updated_at = now()
+  WHERE chat_read_cursors.marked_unread
+  OR COALESCE(chat_read_cursors.last_read_at, '-infinity') < EXCLUDED.last_read_at;
+END;
+$$;
+
+-- "Mark as read" from the chat list: up to the room's newest message
+CREATE OR REPLACE FUNCTION public.mark_room_read(room_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  newest UUID;
+BEGIN
+  IF NOT public.is_user_in_chat(room_uuid) THEN
+    RAISE EXCEPTION 'Chat not found';
+  END IF;
+
+  SELECT id INTO newest
+  FROM public.messages
+  WHERE chat_room_id = room_uuid
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1;
+
+  IF newest IS NOT NULL THEN
+    PERFORM public.mark_messages_read(newest);
+  END IF;
+
+  UPDATE public.chat_read_cursors
+  SET marked_unread = false, updated_at = now()
+  WHERE user_id = auth.uid() AND chat_room_id = room_uuid AND marked_unread;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_room_unread(room_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_user_in_chat(room_uuid) THEN
+    RAISE EXCEPTION 'Chat not found';
+  END IF;
+
+  INSERT INTO public.chat_read_cursors (user_id, chat_room_id, marked_unread)
+  VALUES (auth.uid(), room_uuid, true)
+  ON CONFLICT (user_id, chat_room_id) DO UPDATE
+  SET marked_unread = true, updated_at = now();
+END;
+$$;
+
+-- Unread counts for all of the user's rooms in one call: messages from
+-- others since the read position (or since joining, for rooms never read),
+-- leaving out deleted messages and those deleted for the user
+CREATE OR REPLACE FUNCTION public.get_unread_counts()
+RETURNS TABLE (chat_room_id UUID, unread_count INTEGER, marked_unread BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cp.chat_room_id,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.messages m
+      WHERE m.chat_room_id = cp.chat_room_id
+      AND m.created_at > COALESCE(c.last_read_at, cp.joined_at)
+      AND m.sender_id <> auth.uid()
+      AND m.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.message_deletions d
+        WHERE d.message_id = m.id AND d.user_id = auth.uid()
+      )
+    ) AS unread_count,
+    COALESCE(c.marked_unread, false) AS marked_unread
+  FROM public.chat_participants cp
+  LEFT JOIN public.chat_read_cursors c
+    ON c.user_id = cp.user_id AND c.chat_room_id = cp.chat_room_id
+  WHERE cp.user_id = auth.uid();
+$$;
+
+-- Add to realtime publication, so other devices see rooms being read
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_read_cursors;
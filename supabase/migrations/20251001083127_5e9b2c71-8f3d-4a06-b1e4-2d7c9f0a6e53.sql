@@ -0,0 +1,20 @@
+-- Who's online now comes from Realtime presence; the profile keeps is_online
+-- and last_seen for when nobody's watching. The app heartbeats last_seen
+-- while open and clears is_online when it closes, so this only ever touches
+-- the caller's own profile.
+CREATE OR REPLACE FUNCTION public.update_user_status(user_uuid UUID, online_status BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF user_uuid IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  UPDATE public.profiles
+  SET is_online = online_status, last_seen = now()
+  WHERE user_id = user_uuid;
+END;
+$$;